@@ -0,0 +1,52 @@
+import { getBriefingBudget, renderBriefing } from "./briefing";
+
+describe("renderBriefing", () => {
+  const sections = [
+    { title: "Summary", content: "Short summary.", priority: 0 },
+    { title: "Plan", content: "Plan line.\n".repeat(100).trim(), priority: 2 },
+    { title: "Notes", content: "Important note.", priority: 1 },
+  ];
+
+  it("should include every section that fits", () => {
+    const briefing = renderBriefing("# Briefing", sections);
+    expect(briefing.truncated).toEqual([]);
+    expect(briefing.omitted).toEqual([]);
+    expect(briefing.text).toMatch(
+      /^# Briefing\n\n## Summary\n\nShort summary\.\n\n## Plan\n\nPlan line\./,
+    );
+    expect(briefing.text).toMatch(/## Notes\n\nImportant note\.$/);
+  });
+
+  it("should truncate lower priority sections to the budget", () => {
+    const briefing = renderBriefing("# Briefing", sections, { maxChars: 500 });
+    expect(briefing.text.length).toBeLessThanOrEqual(500);
+    expect(briefing.truncated).toEqual(["Plan"]);
+    expect(briefing.text).toContain("Important note.");
+    expect(briefing.text).toContain("Plan line.\n…(truncated)");
+  });
+
+  it("should leave out sections without room", () => {
+    const briefing = renderBriefing("# Briefing", sections, { maxTokens: 30 });
+    expect(briefing.text.length).toBeLessThanOrEqual(120);
+    expect(briefing.omitted).toEqual(["Plan"]);
+    expect(briefing.text).toMatch(/Omitted to fit the budget: Plan$/);
+  });
+
+  it("should stay within budgets smaller than the heading", () => {
+    const heading = "# Briefing: a goal with a long title\n\nStatus: active";
+    for (const maxChars of [10, 30, heading.length + 20]) {
+      const briefing = renderBriefing(heading, sections, { maxChars });
+      expect(briefing.text.length).toBeLessThanOrEqual(maxChars);
+      expect(briefing.omitted).toEqual(["Summary", "Notes", "Plan"]);
+    }
+    expect(renderBriefing(heading, sections, { maxChars: 30 }).text).toBe(
+      "# Briefing: a goal with a long",
+    );
+  });
+
+  it("should use the smaller of the character and token budgets", () => {
+    expect(getBriefingBudget({ maxChars: 1000, maxTokens: 100 })).toBe(400);
+    expect(getBriefingBudget({ maxChars: 300 })).toBe(300);
+    expect(getBriefingBudget()).toBe(8000);
+  });
+});
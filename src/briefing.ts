@@ -0,0 +1,111 @@
+export interface BriefingSection {
+  title: string;
+  content: string;
+  priority: number; // lower numbers are kept first when space runs out
+}
+
+export interface BriefingOptions {
+  maxChars?: number;
+  maxTokens?: number; // estimated at four characters per token
+}
+
+export interface Briefing {
+  text: string;
+  truncated: string[]; // titles of sections that were cut short
+  omitted: string[]; // titles of sections left out entirely
+}
+
+export const DEFAULT_BRIEFING_CHARS = 8000;
+const CHARS_PER_TOKEN = 4;
+// Sections that would be cut to less than this are left out instead
+const MIN_SECTION_CHARS = 200;
+const TRUNCATION_MARKER = "\n…(truncated)";
+const OMITTED_PREFIX = "\n\nOmitted to fit the budget: ";
+
+export function getBriefingBudget(options: BriefingOptions = {}): number {
+  const limits = [
+    options.maxChars,
+    options.maxTokens !== undefined
+      ? options.maxTokens * CHARS_PER_TOKEN
+      : undefined,
+  ].filter((limit): limit is number => limit !== undefined);
+  return limits.length > 0 ? Math.min(...limits) : DEFAULT_BRIEFING_CHARS;
+}
+
+// Keeps as many whole lines as fit, cutting the first line if it alone is
+// too long
+function truncateLines(content: string, maxChars: number): string {
+  const lines = content.split("\n");
+  let kept = lines[0].slice(0, maxChars);
+  for (const line of lines.slice(1)) {
+    if (kept.length + 1 + line.length > maxChars) break;
+    kept += `\n${line}`;
+  }
+  return kept.trimEnd();
+}
+
+function formatSection(title: string, content: string): string {
+  return `\n\n## ${title}\n\n${content}`;
+}
+
+function formatOmitted(titles: string[]): string {
+  return titles.length > 0 ? OMITTED_PREFIX + titles.join(", ") : "";
+}
+
+// Fits sections into the budget in priority order, truncating the first
+// section that does not fit whole and leaving out those with no room left.
+// Sections appear in the order given regardless of priority.
+export function renderBriefing(
+  heading: string,
+  sections: BriefingSection[],
+  options: BriefingOptions = {},
+): Briefing {
+  const maxChars = getBriefingBudget(options);
+  const budget = maxChars - heading.length;
+  const kept = new Map<BriefingSection, string>();
+  const truncated: string[] = [];
+  const omitted: string[] = [];
+  let used = 0;
+
+  const byPriority = [...sections].sort((a, b) => a.priority - b.priority);
+  byPriority.forEach((section, i) => {
+    // Leave room to list every later section as omitted
+    const later = byPriority.slice(i + 1).map((s) => s.title);
+    const remaining =
+      budget - used - formatOmitted([...omitted, ...later]).length;
+    const size = formatSection(section.title, section.content).length;
+    const available =
+      remaining -
+      formatSection(section.title, "").length -
+      TRUNCATION_MARKER.length;
+
+    if (size <= remaining) {
+      kept.set(section, section.content);
+      used += size;
+    } else if (available >= MIN_SECTION_CHARS) {
+      const content =
+        truncateLines(section.content, available) + TRUNCATION_MARKER;
+      kept.set(section, content);
+      truncated.push(section.title);
+      used += formatSection(section.title, content).length;
+    } else {
+      omitted.push(section.title);
+    }
+  });
+
+  let text = heading;
+  for (const section of sections) {
+    const content = kept.get(section);
+    if (content !== undefined) {
+      text += formatSection(section.title, content);
+    }
+  }
+  text += formatOmitted(omitted);
+  // Budgets too small for the heading and the list of omitted sections cut
+  // those short as well
+  if (text.length > maxChars) {
+    text = truncateLines(text, maxChars);
+  }
+
+  return { text, truncated, omitted };
+}
@@ -0,0 +1,169 @@
+import { join } from "path";
+import { homedir } from "os";
+import { chmod, rm, writeFile, mkdir } from "fs/promises";
+import { runCli } from "./cli";
+
+describe("mcp-goals CLI", () => {
+  const TEST_DIR = join(homedir(), ".goals-test-cli");
+  const WORKSPACE_PATH = join(TEST_DIR, "project");
+
+  beforeEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+    await mkdir(WORKSPACE_PATH, { recursive: true });
+  });
+
+  async function run(...args: string[]) {
+    const output = { log: [] as string[], error: [] as string[] };
+    const code = await runCli(args, {
+      storeDir: join(TEST_DIR, "store"),
+      output: {
+        log: (text) => output.log.push(text),
+        error: (text) => output.error.push(text),
+      },
+    });
+    return { code, out: output.log.join("\n"), err: output.error.join("\n") };
+  }
+
+  it("should manage workspaces, goals and learnings", async () => {
+    expect(
+      (await run("workspace", "create", "project", WORKSPACE_PATH)).out,
+    ).toBe(`Workspace "project" created at ${WORKSPACE_PATH}`);
+    await run("workspace", "use", "project");
+    expect((await run("workspace", "list")).out).toBe(
+      `* project: ${WORKSPACE_PATH}`,
+    );
+
+    const planPath = join(TEST_DIR, "plan.md");
+    await writeFile(
+      planPath,
+      "# Release\n\nShip it.\n\n- [x] Build\n- [ ] Tag",
+    );
+    expect(
+      (await run("goal", "create", "release", "--file", planPath)).out,
+    ).toBe('Goal "release" created in workspace "project"');
+    await run("goal", "activate", "release");
+    expect((await run("goal", "list")).out).toBe("- release [active]: Release");
+
+    const shown = await run("goal", "show", "release");
+    expect(shown.out).toContain(
+      "release [active] (active)\n50% complete (1/2 tasks)",
+    );
+    expect(shown.out).toContain("Ship it.");
+
+    await writeFile(planPath, "# Release\n\n- [x] Build\n- [x] Tag");
+    expect((await run("goal", "edit", "release", "--file", planPath)).out).toBe(
+      'Plan for goal "release" updated (version 2)',
+    );
+
+    await run(
+      "learning",
+      "add",
+      "--title",
+      "Tags trigger releases",
+      "--context",
+      "CI",
+      "--details",
+      "Pushing a tag publishes",
+      "--rationale",
+      "Keeps releases explicit",
+      "--goal",
+      "release",
+    );
+    const learnings = JSON.parse(
+      (await run("learning", "list", "--goal", "release", "--json")).out,
+    );
+    expect(learnings.learnings).toMatchObject([
+      { title: "Tags trigger releases", goal: "release" },
+    ]);
+  });
+
+  it("should edit plans in the user's editor", async () => {
+    await run("workspace", "create", "project", WORKSPACE_PATH);
+    await run("workspace", "use", "project");
+    const planPath = join(TEST_DIR, "plan.md");
+    await writeFile(planPath, "# Release\n\n- [ ] Tag\n");
+    await run("goal", "create", "release", "--file", planPath);
+
+    const editor = join(TEST_DIR, "editor.sh");
+    await writeFile(editor, '#!/bin/sh\necho "- [ ] Announce" >> "$1"\n');
+    await chmod(editor, 0o755);
+    const { VISUAL, EDITOR } = process.env;
+    delete process.env.VISUAL;
+    process.env.EDITOR = editor;
+    try {
+      expect((await run("goal", "edit", "release")).out).toBe(
+        'Plan for goal "release" updated (version 2)',
+      );
+    } finally {
+      if (VISUAL !== undefined) process.env.VISUAL = VISUAL;
+      if (EDITOR !== undefined) process.env.EDITOR = EDITOR;
+      else delete process.env.EDITOR;
+    }
+    expect((await run("goal", "show", "release")).out).toContain(
+      "- [ ] Tag\n- [ ] Announce",
+    );
+  });
+
+  it("should create goals from templates", async () => {
+    await run("workspace", "create", "project", WORKSPACE_PATH);
+    await run("workspace", "use", "project");
+    const templatesDir = join(TEST_DIR, "store", "templates");
+    await mkdir(templatesDir, { recursive: true });
+    await writeFile(
+      join(templatesDir, "chore.md"),
+      "# Chore: {{task}}\n\nTracked as {{goal}}.",
+    );
+
+    const created = await run(
+      "goal",
+      "create",
+      "Tidy up",
+      "--template",
+      "chore",
+      "--var",
+      "task=Remove dead code",
+      "--status",
+      "draft",
+    );
+    expect(created.out).toBe('Goal "tidy-up" created in workspace "project"');
+    const shown = (await run("goal", "show", "tidy-up")).out;
+    expect(shown).toContain("tidy-up [draft]");
+    expect(shown).toContain("# Chore: Remove dead code\n\nTracked as tidy-up.");
+
+    const invalid = await run(
+      "goal",
+      "create",
+      "other",
+      "--template",
+      "chore",
+      "--var",
+      "task=x",
+      "--status",
+      "done",
+    );
+    expect(invalid.code).toBe(1);
+    expect(invalid.err).toContain("--status");
+  });
+
+  it("should report errors with codes in JSON mode", async () => {
+    const missing = await run("goal", "list", "--json");
+    expect(missing.code).toBe(1);
+    expect(JSON.parse(missing.err)).toEqual({
+      error: {
+        code: "NO_ACTIVE_WORKSPACE",
+        message:
+          'No workspace is active. Run "mcp-goals workspace use <name>" first.',
+      },
+    });
+
+    const unknown = await run("frobnicate");
+    expect(unknown.code).toBe(1);
+    expect(unknown.err).toBe(
+      'Error: Unknown command "frobnicate". Run mcp-goals --help for usage.',
+    );
+
+    const badOption = await run("goal", "list", "--colour");
+    expect(badOption.code).toBe(1);
+    expect(badOption.err).toContain("--colour");
+  });
+});
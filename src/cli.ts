@@ -0,0 +1,544 @@
+import { parseArgs } from "util";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { spawnSync } from "child_process";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { z } from "zod";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Workspace, WorkspaceManager } from "./workspace.js";
+import { GoalManager, INITIAL_GOAL_STATUSES } from "./goals.js";
+import { toGoalName } from "./names.js";
+import { TemplateManager } from "./templates.js";
+import {
+  createGoalResolver,
+  createServer,
+  formatGoalSummary,
+  GOAL_QUERY_SHAPE,
+} from "./server.js";
+import {
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  getServerUrl,
+  startHttpServer,
+} from "./http.js";
+import { getErrorCode, GoalsError } from "./errors.js";
+
+export const USAGE = `Usage: mcp-goals [command] [options]
+
+Commands:
+  serve [--http] [--port <port>] [--host <host>]
+      Run the MCP server (the default). Serves one client over stdio unless
+      --http or --port is given. Over HTTP it listens on ${DEFAULT_HTTP_HOST}
+      only; give --host to accept connections from other machines. The server
+      has no authentication, so only do so on a trusted network.
+  workspace list
+  workspace create <name> <path>
+  workspace use <name>
+      Make a workspace the active one for later commands and new sessions.
+  goal list [--status <status>] [--priority <priority>] [--tag <tag>]
+            [--owner <owner>] [--due-before <date>] [--overdue] [--sort <key>]
+  goal show <name>
+  goal create <name> (--file <plan.md> | --template <name> [--var key=value ...])
+              [--parent <goal>] [--depends-on <goal> ...] [--status draft|active]
+  goal activate <name>
+  goal edit <name> [--file <plan.md>] [--note <note>]
+      Replace the plan with a file, or edit it in $VISUAL or $EDITOR.
+  learning add --title <title> --context <context> --details <details>
+               --rationale <rationale> [--alternatives <text>]
+               [--references <text>] [--goal <goal>]
+  learning list [--goal <goal>]
+
+Options:
+  --workspace <name>  Workspace for goal and learning commands. Defaults to
+                      the active workspace.
+  --json              Print results as JSON for scripts
+  --help              Show this help`;
+
+const OPTIONS = {
+  help: { type: "boolean", short: "h" },
+  json: { type: "boolean" },
+  workspace: { type: "string" },
+  http: { type: "boolean" },
+  port: { type: "string" },
+  host: { type: "string" },
+  status: { type: "string" },
+  priority: { type: "string" },
+  tag: { type: "string" },
+  owner: { type: "string" },
+  "due-before": { type: "string" },
+  overdue: { type: "boolean" },
+  sort: { type: "string" },
+  file: { type: "string" },
+  template: { type: "string" },
+  var: { type: "string", multiple: true },
+  parent: { type: "string" },
+  "depends-on": { type: "string", multiple: true },
+  note: { type: "string" },
+  title: { type: "string" },
+  context: { type: "string" },
+  details: { type: "string" },
+  rationale: { type: "string" },
+  alternatives: { type: "string" },
+  references: { type: "string" },
+  goal: { type: "string" },
+} as const;
+
+type CliValues = ReturnType<
+  typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>
+>["values"];
+
+export interface CliOutput {
+  log(text: string): void;
+  error(text: string): void;
+}
+
+export interface CliOptions {
+  storeDir?: string; // defaults to ~/.goals
+  output?: CliOutput;
+}
+
+// Text for people and the same outcome as data for --json
+interface CommandResult {
+  text: string;
+  data: unknown;
+}
+
+const EDIT_NOTE = "Edited from the command line";
+
+function parseCliArgs(args: string[]) {
+  try {
+    return parseArgs({ args, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    throw new GoalsError("INVALID_ARGUMENTS", (error as Error).message);
+  }
+}
+
+function expectArgs(args: string[], count: number, usage: string): void {
+  if (args.length !== count) {
+    throw new GoalsError("INVALID_ARGUMENTS", `Usage: mcp-goals ${usage}`);
+  }
+}
+
+// Parses "key=value" template variables
+function parseVariables(pairs: string[] = []): Record<string, string> {
+  return Object.fromEntries(
+    pairs.map((pair) => {
+      const separator = pair.indexOf("=");
+      if (separator === -1) {
+        throw new GoalsError(
+          "INVALID_ARGUMENTS",
+          `Expected --var key=value, got "${pair}"`,
+        );
+      }
+      return [pair.slice(0, separator), pair.slice(separator + 1)];
+    }),
+  );
+}
+
+async function getWorkspace(
+  workspaceManager: WorkspaceManager,
+  name?: string,
+): Promise<Workspace> {
+  if (name !== undefined) {
+    return workspaceManager.findWorkspace(name);
+  }
+
+  const workspace = await workspaceManager.getActiveWorkspace();
+  if (!workspace) {
+    throw new GoalsError(
+      "NO_ACTIVE_WORKSPACE",
+      'No workspace is active. Run "mcp-goals workspace use <name>" first.',
+    );
+  }
+  return workspace;
+}
+
+async function openGoalManager(
+  workspaceManager: WorkspaceManager,
+  workspace: Workspace,
+): Promise<GoalManager> {
+  const goalManager = new GoalManager(
+    workspace.path,
+    createGoalResolver(workspaceManager),
+  );
+  await goalManager.init();
+  return goalManager;
+}
+
+// Lets the user edit text in their editor, returning the saved text
+async function editText(text: string): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "mcp-goals-"));
+  const path = join(dir, "plan.md");
+  try {
+    await writeFile(path, text);
+    const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+    // The editor may come with arguments, e.g. "code --wait", so it runs in a
+    // shell, but the path is passed as a parameter rather than quoted into it
+    const result = spawnSync("sh", ["-c", `${editor} "$1"`, "sh", path], {
+      stdio: "inherit",
+    });
+    if (result.status !== 0) {
+      throw new GoalsError(
+        "INTERNAL_ERROR",
+        `Editor "${editor}" exited with status ${result.status}; nothing was changed`,
+      );
+    }
+    return await readFile(path, "utf-8");
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function serve(
+  workspaceManager: WorkspaceManager,
+  values: CliValues,
+  output: CliOutput,
+): Promise<void> {
+  if (values.http || values.port !== undefined) {
+    const port = Number(values.port ?? DEFAULT_HTTP_PORT);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new GoalsError(
+        "INVALID_ARGUMENTS",
+        `Invalid port "${values.port}"`,
+      );
+    }
+
+    const server = await startHttpServer(workspaceManager, {
+      port,
+      host: values.host,
+    });
+    output.error(`Goals MCP Server listening on ${getServerUrl(server)}`);
+    return;
+  }
+
+  output.error("Starting Goals MCP Server...");
+  await createServer(workspaceManager).connect(new StdioServerTransport());
+  output.error("Server connected successfully");
+}
+
+async function runWorkspaceCommand(
+  command: string | undefined,
+  args: string[],
+  workspaceManager: WorkspaceManager,
+): Promise<CommandResult> {
+  switch (command) {
+    case "list": {
+      const active = (await workspaceManager.getActiveWorkspace())?.name;
+      const workspaces = (await workspaceManager.checkHealth()).map(
+        (workspace) => ({
+          ...workspace,
+          active: workspace.name === active,
+        }),
+      );
+      return {
+        text:
+          workspaces.length > 0
+            ? workspaces
+                .map(
+                  (w) =>
+                    `${w.active ? "*" : " "} ${w.name}: ${w.path}${w.exists ? "" : " [MISSING: path does not exist]"}`,
+                )
+                .join("\n")
+            : "No workspaces registered",
+        data: { workspaces },
+      };
+    }
+
+    case "create": {
+      expectArgs(args, 2, "workspace create <name> <path>");
+      const workspace = await workspaceManager.createWorkspace(
+        args[0],
+        resolve(args[1]),
+      );
+      return {
+        text: `Workspace "${workspace.name}" created at ${workspace.path}`,
+        data: { workspace },
+      };
+    }
+
+    case "use": {
+      expectArgs(args, 1, "workspace use <name>");
+      const workspace = await workspaceManager.updateLastActive(args[0]);
+      return {
+        text: `Now using workspace "${workspace.name}" at ${workspace.path}`,
+        data: { workspace },
+      };
+    }
+
+    default:
+      throw new GoalsError(
+        "INVALID_ARGUMENTS",
+        "Usage: mcp-goals workspace list|create|use",
+      );
+  }
+}
+
+async function runGoalCommand(
+  command: string | undefined,
+  args: string[],
+  values: CliValues,
+  workspaceManager: WorkspaceManager,
+): Promise<CommandResult> {
+  const workspace = await getWorkspace(workspaceManager, values.workspace);
+  const goalManager = await openGoalManager(workspaceManager, workspace);
+
+  switch (command) {
+    case "list": {
+      const query = z.object(GOAL_QUERY_SHAPE).safeParse({
+        status: values.status,
+        priority: values.priority,
+        tag: values.tag,
+        owner: values.owner,
+        due_before: values["due-before"],
+        overdue: values.overdue,
+        sort: values.sort,
+      });
+      if (!query.success) {
+        throw new GoalsError(
+          "INVALID_ARGUMENTS",
+          query.error.issues
+            .map((issue) => `--${issue.path.join(".")}: ${issue.message}`)
+            .join("\n"),
+        );
+      }
+
+      const goals = await goalManager.getGoalSummaries(query.data);
+      return {
+        text:
+          goals.length > 0
+            ? goals.map((goal) => `- ${formatGoalSummary(goal)}`).join("\n")
+            : "No goals match",
+        data: { workspace: workspace.name, goals },
+      };
+    }
+
+    case "show": {
+      expectArgs(args, 1, "goal show <name>");
+      const [name] = args;
+      const goal = await goalManager.getGoal(name);
+      if (!goal) {
+        throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+      }
+      const status = await goalManager.getGoalStatus(name);
+      const progress = await goalManager.getGoalProgress(name);
+      const plan = (await goalManager.getPlan(name)) ?? "";
+
+      return {
+        text:
+          `${name} [${status.status}]${status.reason ? `: ${status.reason}` : ""}` +
+          (goalManager.getActiveGoal() === name ? " (active)" : "") +
+          `\n${progress.percent_complete}% complete (${progress.completed_tasks}/${progress.total_tasks} tasks)` +
+          `\n\n${plan}`,
+        data: { goal, status, progress, plan },
+      };
+    }
+
+    case "create": {
+      expectArgs(args, 1, "goal create <name> --file <plan.md>");
+      const [name] = args;
+      if ((values.file === undefined) === (values.template === undefined)) {
+        throw new GoalsError(
+          "INVALID_ARGUMENTS",
+          "Provide either --file or --template",
+        );
+      }
+      const status = z
+        .enum(INITIAL_GOAL_STATUSES)
+        .optional()
+        .safeParse(values.status);
+      if (!status.success) {
+        throw new GoalsError(
+          "INVALID_ARGUMENTS",
+          `--status: ${status.error.issues[0].message}`,
+        );
+      }
+
+      const content =
+        values.file !== undefined
+          ? await readFile(values.file, "utf-8")
+          : await new TemplateManager(
+              workspaceManager.templatesDir,
+              workspace.path,
+            ).render(
+              values.template!,
+              parseVariables(values.var),
+              toGoalName(name),
+            );
+      const goal = await goalManager.createGoal(name, content, {
+        parent: values.parent,
+        depends_on: values["depends-on"],
+        status: status.data,
+      });
+      return {
+        text: `Goal "${goal.name}" created in workspace "${workspace.name}"`,
+        data: { goal, status: status.data ?? "active" },
+      };
+    }
+
+    case "activate": {
+      expectArgs(args, 1, "goal activate <name>");
+      const [name] = args;
+      await goalManager.setActiveGoal(name);
+      return {
+        text: `Now working on goal "${name}"`,
+        data: { workspace: workspace.name, active_goal: name },
+      };
+    }
+
+    case "edit": {
+      expectArgs(args, 1, "goal edit <name>");
+      const [name] = args;
+      const plan = await goalManager.getPlan(name);
+      if (plan === null) {
+        throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+      }
+
+      const content =
+        values.file !== undefined
+          ? await readFile(values.file, "utf-8")
+          : await editText(plan);
+      const changed = content !== plan;
+      if (changed) {
+        await goalManager.updatePlan(name, content, values.note ?? EDIT_NOTE);
+      }
+      const versions = await goalManager.listPlanVersions(name);
+      return {
+        text: changed
+          ? `Plan for goal "${name}" updated (version ${versions.length})`
+          : `Plan for goal "${name}" is unchanged`,
+        data: { goal: name, changed, version: versions.length },
+      };
+    }
+
+    default:
+      throw new GoalsError(
+        "INVALID_ARGUMENTS",
+        "Usage: mcp-goals goal list|show|create|activate|edit",
+      );
+  }
+}
+
+async function runLearningCommand(
+  command: string | undefined,
+  args: string[],
+  values: CliValues,
+  workspaceManager: WorkspaceManager,
+): Promise<CommandResult> {
+  const workspace = await getWorkspace(workspaceManager, values.workspace);
+  const goalManager = await openGoalManager(workspaceManager, workspace);
+
+  switch (command) {
+    case "add": {
+      expectArgs(args, 0, "learning add --title <title> ...");
+      const { title, context, details, rationale } = values;
+      if (!title || !context || !details || !rationale) {
+        throw new GoalsError(
+          "INVALID_ARGUMENTS",
+          "learning add needs --title, --context, --details and --rationale",
+        );
+      }
+
+      const learning = await goalManager.createLearning(
+        {
+          title,
+          context,
+          details,
+          rationale,
+          alternatives: values.alternatives ?? "",
+          references: values.references ?? "",
+        },
+        values.goal,
+      );
+      return {
+        text: `Learning "${learning.title}" recorded ${values.goal ? `for goal "${values.goal}"` : "for the workspace"} (${learning.filename})`,
+        data: { learning },
+      };
+    }
+
+    case "list": {
+      expectArgs(args, 0, "learning list [--goal <goal>]");
+      const learnings = await goalManager.listLearnings(values.goal);
+      return {
+        text:
+          learnings.length > 0
+            ? learnings
+                .map(
+                  (learning) =>
+                    `- ${learning.timestamp} ${learning.title} (${learning.filename})`,
+                )
+                .join("\n")
+            : "No learnings recorded",
+        data: { learnings },
+      };
+    }
+
+    default:
+      throw new GoalsError(
+        "INVALID_ARGUMENTS",
+        "Usage: mcp-goals learning add|list",
+      );
+  }
+}
+
+// Runs the mcp-goals command line and returns its exit code. Without a
+// command it serves MCP over stdio, as MCP clients expect.
+export async function runCli(
+  args: string[],
+  options: CliOptions = {},
+): Promise<number> {
+  const output = options.output ?? {
+    log: (text) => console.log(text),
+    error: (text) => console.error(text),
+  };
+  let json = args.includes("--json");
+
+  try {
+    const { values, positionals } = parseCliArgs(args);
+    json = values.json ?? false;
+    if (values.help) {
+      output.log(USAGE);
+      return 0;
+    }
+
+    const workspaceManager = new WorkspaceManager(options.storeDir);
+    await workspaceManager.init();
+
+    const [group = "serve", command, ...rest] = positionals;
+    let result: CommandResult;
+    switch (group) {
+      case "serve":
+        await serve(workspaceManager, values, output);
+        return 0;
+      case "workspace":
+        result = await runWorkspaceCommand(command, rest, workspaceManager);
+        break;
+      case "goal":
+        result = await runGoalCommand(command, rest, values, workspaceManager);
+        break;
+      case "learning":
+        result = await runLearningCommand(
+          command,
+          rest,
+          values,
+          workspaceManager,
+        );
+        break;
+      default:
+        throw new GoalsError(
+          "INVALID_ARGUMENTS",
+          `Unknown command "${group}". Run mcp-goals --help for usage.`,
+        );
+    }
+
+    output.log(json ? JSON.stringify(result.data, null, 2) : result.text);
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    output.error(
+      json
+        ? JSON.stringify({ error: { code: getErrorCode(error), message } })
+        : `Error: ${message}`,
+    );
+    return 1;
+  }
+}
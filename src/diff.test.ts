@@ -0,0 +1,51 @@
+import { unifiedDiff } from "./diff";
+
+describe("unifiedDiff", () => {
+  it("should return nothing for identical texts", () => {
+    expect(unifiedDiff("a\nb\n", "a\r\nb")).toBe("");
+  });
+
+  it("should produce hunks with context", () => {
+    const from = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n");
+    const to = [
+      "1",
+      "2",
+      "three",
+      "4",
+      "5",
+      "6",
+      "7",
+      "8",
+      "9",
+      "10",
+      "11",
+    ].join("\n");
+
+    expect(
+      unifiedDiff(from, to, { fromLabel: "v1", toLabel: "v2", context: 1 }),
+    ).toBe(
+      [
+        "--- v1",
+        "+++ v2",
+        "@@ -2,3 +2,3 @@",
+        " 2",
+        "-3",
+        "+three",
+        " 4",
+        "@@ -10,1 +10,2 @@",
+        " 10",
+        "+11",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should merge nearby changes and handle empty texts", () => {
+    expect(unifiedDiff("a\nb\nc", "A\nb\nC", { context: 1 })).toBe(
+      "--- a\n+++ b\n@@ -1,3 +1,3 @@\n-a\n+A\n b\n-c\n+C\n",
+    );
+    expect(unifiedDiff("", "new")).toBe(
+      "--- a\n+++ b\n@@ -0,0 +1,1 @@\n+new\n",
+    );
+  });
+});
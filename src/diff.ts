@@ -0,0 +1,99 @@
+export interface DiffOptions {
+  fromLabel?: string;
+  toLabel?: string;
+  context?: number; // unchanged lines shown around each change
+}
+
+interface Edit {
+  kind: " " | "-" | "+";
+  text: string;
+  fromLine: number; // zero-based index into the old lines
+  toLine: number; // zero-based index into the new lines
+}
+
+const DEFAULT_CONTEXT = 3;
+
+function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+// Line-based diff from the longest common subsequence. Plans are small
+// enough that the quadratic table is not a concern.
+function diffLines(from: string[], to: string[]): Edit[] {
+  const lengths = Array.from({ length: from.length + 1 }, () =>
+    new Array<number>(to.length + 1).fill(0),
+  );
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        from[i] === to[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const edits: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length || j < to.length) {
+    if (i < from.length && j < to.length && from[i] === to[j]) {
+      edits.push({ kind: " ", text: from[i], fromLine: i++, toLine: j++ });
+    } else if (
+      j === to.length ||
+      (i < from.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      edits.push({ kind: "-", text: from[i], fromLine: i++, toLine: j });
+    } else {
+      edits.push({ kind: "+", text: to[j], fromLine: i, toLine: j++ });
+    }
+  }
+  return edits;
+}
+
+function formatRange(start: number, count: number): string {
+  // An empty range refers to the line before it, as in diff -u
+  return `${count === 0 ? start : start + 1},${count}`;
+}
+
+// Produces a unified diff of two texts, or "" if they have the same lines
+export function unifiedDiff(
+  from: string,
+  to: string,
+  options: DiffOptions = {},
+): string {
+  const context = options.context ?? DEFAULT_CONTEXT;
+  const edits = diffLines(splitLines(from), splitLines(to));
+  const changes = edits.flatMap((edit, i) => (edit.kind === " " ? [] : [i]));
+  if (changes.length === 0) return "";
+
+  // Changes separated by no more than twice the context share a hunk
+  const groups: number[][] = [[changes[0]]];
+  for (const change of changes.slice(1)) {
+    const group = groups[groups.length - 1];
+    if (change - group[group.length - 1] <= 2 * context + 1) {
+      group.push(change);
+    } else {
+      groups.push([change]);
+    }
+  }
+
+  const output = [
+    `--- ${options.fromLabel ?? "a"}`,
+    `+++ ${options.toLabel ?? "b"}`,
+  ];
+  for (const group of groups) {
+    const start = Math.max(0, group[0] - context);
+    const end = Math.min(edits.length, group[group.length - 1] + context + 1);
+    const hunk = edits.slice(start, end);
+
+    const fromCount = hunk.filter((edit) => edit.kind !== "+").length;
+    const toCount = hunk.filter((edit) => edit.kind !== "-").length;
+    output.push(
+      `@@ -${formatRange(hunk[0].fromLine, fromCount)} +${formatRange(hunk[0].toLine, toCount)} @@`,
+    );
+    output.push(...hunk.map((edit) => `${edit.kind}${edit.text}`));
+  }
+  return output.join("\n") + "\n";
+}
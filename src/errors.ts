@@ -0,0 +1,43 @@
+// Stable codes that tool results report alongside the error message, so
+// clients can branch on the outcome without parsing the text. Arguments that
+// do not match a tool's schema are rejected by the MCP SDK before the tool
+// runs, so they remain JSON-RPC errors with code -32602 (InvalidParams).
+export const ERROR_CODES = [
+  "WORKSPACE_NOT_FOUND",
+  "WORKSPACE_EXISTS",
+  "INVALID_WORKSPACE_PATH",
+  "NO_ACTIVE_WORKSPACE",
+  "GOAL_NOT_FOUND",
+  "GOAL_EXISTS",
+  "NO_ACTIVE_GOAL",
+  "INVALID_NAME",
+  "INVALID_RELATION",
+  "INVALID_STATUS_TRANSITION",
+  "VERSION_NOT_FOUND",
+  "SECTION_NOT_FOUND",
+  "TASK_NOT_FOUND",
+  "AMBIGUOUS_MATCH",
+  "TEMPLATE_NOT_FOUND",
+  "MISSING_TEMPLATE_VARIABLES",
+  "NO_OPEN_SESSION",
+  "INVALID_ARGUMENTS",
+  "LOCK_TIMEOUT",
+  "INTERNAL_ERROR",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export class GoalsError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "GoalsError";
+  }
+}
+
+// Errors that were not raised deliberately are reported as internal errors
+export function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof GoalsError ? error.code : "INTERNAL_ERROR";
+}
@@ -1,8 +1,8 @@
 import { join } from "path";
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, readFile, utimes, writeFile } from "fs/promises";
 import { rm } from "fs/promises";
 import { homedir } from "os";
-import { GoalManager } from "./goals";
+import { GoalManager, GoalQuery, TRASH_RETENTION_DAYS } from "./goals";
 
 describe("GoalManager", () => {
   const TEST_DIR = join(homedir(), ".goals-test-manager");
@@ -86,10 +86,639 @@ More details here.`;
     expect(summaries).toContainEqual({
       name: "goal1",
       description: "Goal One\n\nFirst goal description.",
+      status: "active",
+      owner: null,
+      priority: null,
+      tags: [],
+      due: null,
+      overdue: false,
     });
     expect(summaries).toContainEqual({
       name: "goal2",
       description: "Goal Two\n\nSecond goal description.",
+      status: "active",
+      owner: null,
+      priority: null,
+      tags: [],
+      due: null,
+      overdue: false,
     });
   });
+
+  it("should filter and sort goals by plan front matter", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    await manager.createGoal(
+      "late",
+      "---\nowner: alice\npriority: low\ntags: [api, Backend]\ndue: 2000-01-01\n---\n# Late",
+    );
+    await manager.createGoal(
+      "urgent",
+      "---\npriority: critical\ntags: api\ndue: 2999-12-31\n---\n# Urgent",
+    );
+    await manager.createGoal("plain", "# Plain");
+    await manager.createGoal(
+      "finished",
+      "---\npriority: High\ndue: 2000-01-01\n---\n# Finished",
+    );
+    await manager.setGoalStatus("finished", "done");
+
+    const [late] = await manager.getGoalSummaries({ owner: "alice" });
+    expect(late).toMatchObject({
+      name: "late",
+      owner: "alice",
+      priority: "low",
+      tags: ["api", "Backend"],
+      due: "2000-01-01",
+      overdue: true,
+    });
+
+    const names = async (query: GoalQuery) =>
+      (await manager.getGoalSummaries(query)).map((goal) => goal.name);
+    expect(await names({})).toEqual(["urgent", "finished", "late", "plain"]);
+    expect(await names({ sort: "due" })).toEqual([
+      "finished",
+      "late",
+      "urgent",
+      "plain",
+    ]);
+    expect(await names({ tag: "backend" })).toEqual(["late"]);
+    expect(await names({ tag: "api", sort: "name" })).toEqual([
+      "late",
+      "urgent",
+    ]);
+    expect(await names({ overdue: true })).toEqual(["late"]);
+    expect(await names({ due_before: "2500-01-01", status: "done" })).toEqual([
+      "finished",
+    ]);
+    expect(await names({ priority: "critical" })).toEqual(["urgent"]);
+  });
+
+  it("should record learnings at workspace and goal level", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+    await manager.createGoal("test-goal", "# Test Goal\n\nDescription.");
+
+    const learning = {
+      title: "Use atomic writes",
+      context: "State files were corrupted",
+      details: "Write to a temp file and rename",
+      rationale: "Rename is atomic",
+      alternatives: "Locking only",
+      references: "",
+    };
+
+    const workspaceLearning = await manager.createLearning(learning);
+    const goalLearning = await manager.createLearning(learning, "test-goal");
+
+    expect(workspaceLearning.goal).toBeNull();
+    expect(goalLearning.goal).toBe("test-goal");
+    expect(goalLearning.filename).toMatch(
+      /^\d{4}-\d{2}-\d{2}T\d{2}_\d{2}_\d{2}_\d{3}Z\.md$/,
+    );
+
+    const goalLearnings = await manager.listLearnings("test-goal");
+    expect(goalLearnings).toEqual([goalLearning]);
+    expect(await manager.listLearnings()).toEqual([workspaceLearning]);
+
+    const content = await manager.getLearning(
+      goalLearning.filename,
+      "test-goal",
+    );
+    expect(content).toContain("## Use atomic writes");
+    expect(content).toContain("### Rationale\nRename is atomic");
+  });
+
+  it("should reject learnings for unknown goals", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    await expect(
+      manager.createLearning(
+        {
+          title: "t",
+          context: "",
+          details: "",
+          rationale: "",
+          alternatives: "",
+          references: "",
+        },
+        "missing",
+      ),
+    ).rejects.toThrow('Goal "missing" does not exist');
+  });
+
+  it("should track goal status transitions", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+    await manager.createGoal("test-goal", "");
+
+    expect((await manager.getGoalStatus("test-goal")).status).toBe("active");
+
+    await manager.setGoalStatus("test-goal", "blocked", "Waiting on API keys");
+    const status = await manager.setGoalStatus("test-goal", "active");
+
+    expect(status.status).toBe("active");
+    expect(status.reason).toBeNull();
+    expect(status.history.map((change) => change.status)).toEqual([
+      "active",
+      "blocked",
+      "active",
+    ]);
+    expect(status.history[1].reason).toBe("Waiting on API keys");
+
+    // Persisted across manager instances
+    const reloaded = new GoalManager(WORKSPACE_PATH);
+    await reloaded.init();
+    expect(await reloaded.getGoalStatus("test-goal")).toEqual(status);
+  });
+
+  it("should create goals as drafts", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+    await manager.createGoal("draft-goal", "", { status: "draft" });
+
+    expect((await manager.getGoalStatus("draft-goal")).status).toBe("draft");
+    const status = await manager.setGoalStatus("draft-goal", "active");
+    expect(status.history.map((change) => change.status)).toEqual([
+      "draft",
+      "active",
+    ]);
+  });
+
+  it("should reject invalid goal status transitions", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+    await manager.createGoal("test-goal", "");
+    await manager.setGoalStatus("test-goal", "done");
+
+    await expect(manager.setGoalStatus("test-goal", "paused")).rejects.toThrow(
+      'Cannot change goal "test-goal" from done to paused',
+    );
+  });
+
+  it("should treat goals without a status file as active", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+    await mkdir(join(WORKSPACE_PATH, ".goals", "goals", "legacy-goal"));
+
+    expect(await manager.getGoalStatus("legacy-goal")).toEqual({
+      status: "active",
+      reason: null,
+      updated_at: null,
+      history: [],
+    });
+  });
+
+  it("should persist goal metadata and update it on changes", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    const created = await manager.createGoal("test-goal", "# Test Goal");
+    const metadataPath = join(
+      WORKSPACE_PATH,
+      ".goals",
+      "goals",
+      "test-goal",
+      "goal.json",
+    );
+    expect(JSON.parse(await readFile(metadataPath, "utf-8"))).toEqual({
+      name: "test-goal",
+      created_at: created.created_at,
+      last_updated: created.last_updated,
+      parent: null,
+      depends_on: [],
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await manager.updatePlan("test-goal", "# Updated");
+
+    const goal = await manager.getGoal("test-goal");
+    expect(goal?.created_at).toBe(created.created_at);
+    expect(goal!.last_updated > created.last_updated).toBe(true);
+    expect(goal?.planPath).toBe(created.planPath);
+
+    expect(await manager.getGoal("missing")).toBeNull();
+  });
+
+  it("should synthesize metadata for existing goal directories", async () => {
+    const goalDir = join(WORKSPACE_PATH, ".goals", "goals", "legacy-goal");
+    await mkdir(join(goalDir, "learnings"), { recursive: true });
+    await writeFile(join(goalDir, "plan.md"), "# Legacy");
+    await writeFile(join(goalDir, "learnings", "note.md"), "## Note");
+
+    const created = new Date("2024-01-01T00:00:00.000Z");
+    const updated = new Date("2024-02-01T00:00:00.000Z");
+    await utimes(join(goalDir, "plan.md"), created, created);
+    await utimes(join(goalDir, "learnings", "note.md"), updated, updated);
+    await utimes(join(goalDir, "learnings"), created, created);
+    await utimes(goalDir, created, created);
+
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    expect(await manager.getGoal("legacy-goal")).toMatchObject({
+      name: "legacy-goal",
+      created_at: created.toISOString(),
+      last_updated: updated.toISOString(),
+    });
+  });
+
+  it("should build a goal tree with blocked dependencies", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    await manager.createGoal("epic", "");
+    await manager.createGoal("api", "", { parent: "epic" });
+    await manager.createGoal("ui", "", { parent: "epic", depends_on: ["api"] });
+
+    let [epic] = await manager.getGoalTree();
+    expect(epic.name).toBe("epic");
+    expect(epic.children.map((child) => child.name).sort()).toEqual([
+      "api",
+      "ui",
+    ]);
+    expect(epic.children.find((c) => c.name === "ui")?.blocked_by).toEqual([
+      "api",
+    ]);
+
+    await manager.setGoalStatus("api", "done");
+    [epic] = await manager.getGoalTree();
+    expect(epic.children.find((c) => c.name === "ui")?.blocked_by).toEqual([]);
+  });
+
+  it("should reject invalid goal relations", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    await manager.createGoal("a", "");
+    await manager.createGoal("b", "", { parent: "a", depends_on: ["a"] });
+
+    await expect(
+      manager.createGoal("c", "", { depends_on: ["missing"] }),
+    ).rejects.toThrow('Goal "missing" does not exist');
+    await expect(
+      manager.setGoalRelations("a", { parent: "b" }),
+    ).rejects.toThrow("cycle");
+    await expect(
+      manager.setGoalRelations("a", { depends_on: ["b"] }),
+    ).rejects.toThrow("cycle");
+    await expect(
+      manager.setGoalRelations("a", { depends_on: ["a"] }),
+    ).rejects.toThrow('Goal "a" cannot depend on itself');
+  });
+
+  it("should copy and move goals between workspaces", async () => {
+    const otherPath = join(TEST_DIR, "other-workspace");
+    await mkdir(otherPath, { recursive: true });
+    const other = new GoalManager(otherPath);
+    await other.init();
+    const workspaces: Record<string, GoalManager> = { main: undefined!, other };
+    const resolver = {
+      getGoalStatus: async (workspace: string, goal: string) => {
+        const manager = workspaces[workspace];
+        if (!manager || !(await manager.listGoals()).includes(goal)) {
+          return null;
+        }
+        return (await manager.getGoalStatus(goal)).status;
+      },
+    };
+    const manager = new GoalManager(WORKSPACE_PATH, resolver);
+    await manager.init();
+    workspaces.main = manager;
+
+    await manager.createGoal("api", "# API");
+    await manager.createGoal("ui", "# UI", {
+      parent: "api",
+      depends_on: ["api"],
+    });
+    await manager.createLearning(
+      {
+        title: "Note",
+        context: "c",
+        details: "d",
+        rationale: "r",
+        alternatives: "",
+        references: "",
+      },
+      "ui",
+    );
+    await manager.setActiveGoal("ui");
+
+    const copy = await manager.copyGoalTo("ui", other, {
+      targetName: "ui-copy",
+      sourceWorkspace: "main",
+    });
+    expect(copy.name).toBe("ui-copy");
+    expect(copy.parent).toBeNull();
+    expect(copy.depends_on).toEqual(["main:api"]);
+    expect(await other.getPlan("ui-copy")).toBe("# UI");
+    expect(await other.listLearnings("ui-copy")).toHaveLength(1);
+    await expect(
+      manager.copyGoalTo("ui", other, { targetName: "ui-copy" }),
+    ).rejects.toThrow('Goal "ui-copy" already exists');
+
+    const [copyNode] = await new GoalManager(otherPath, resolver).getGoalTree();
+    expect(copyNode.blocked_by).toEqual(["main:api"]);
+
+    await manager.moveGoalTo("api", other, "other");
+    expect(await manager.listGoals()).toEqual(["ui"]);
+    expect(await manager.getGoal("ui")).toMatchObject({
+      parent: null,
+      depends_on: ["other:api"],
+    });
+    expect((await manager.getGoalTree())[0].blocked_by).toEqual(["other:api"]);
+
+    await manager.moveGoalTo("ui", other, "other");
+    expect(manager.getActiveGoal()).toBeNull();
+    await expect(
+      manager.createGoal("extra", "", { depends_on: ["other:missing"] }),
+    ).rejects.toThrow('Goal "other:missing" does not exist');
+    await expect(
+      manager.createGoal("extra", "", { parent: "other:api" }),
+    ).rejects.toThrow("must be in the same workspace");
+  });
+
+  it("should archive, delete and restore goals", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    await manager.createGoal("done-goal", "# Done\n\nFinished work.");
+    await manager.createGoal("next", "", { depends_on: ["done-goal"] });
+    await manager.setGoalStatus("done-goal", "done");
+    await manager.setActiveGoal("done-goal");
+
+    const archived = await manager.archiveGoal("done-goal");
+    expect(archived.archived_at).toBeDefined();
+    expect(manager.getActiveGoal()).toBeNull();
+    expect(await manager.listGoals()).toEqual(["next"]);
+    expect(await manager.listArchivedGoals()).toEqual([
+      {
+        name: "done-goal",
+        description: "Done\n\nFinished work.",
+        status: "done",
+        owner: null,
+        priority: null,
+        tags: [],
+        due: null,
+        overdue: false,
+        archived_at: archived.archived_at,
+      },
+    ]);
+    // Archived goals still satisfy dependencies
+    expect((await manager.getGoalTree())[0].blocked_by).toEqual([]);
+
+    const restored = await manager.restoreGoal("done-goal");
+    expect(restored.archived_at).toBeUndefined();
+    expect((await manager.listGoals()).sort()).toEqual(["done-goal", "next"]);
+
+    const deleted = await manager.deleteGoal("done-goal");
+    expect(new Date(deleted.expires_at).getTime()).toBe(
+      new Date(deleted.deleted_at).getTime() +
+        TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+    expect(await manager.listGoals()).toEqual(["next"]);
+    expect(await manager.getGoal("next")).toMatchObject({ depends_on: [] });
+    expect(await manager.listDeletedGoals()).toEqual([deleted]);
+
+    await manager.restoreGoal("done-goal");
+    expect(await manager.getPlan("done-goal")).toBe("# Done\n\nFinished work.");
+    await expect(manager.restoreGoal("done-goal")).rejects.toThrow(
+      'Goal "done-goal" already exists',
+    );
+    await expect(manager.restoreGoal("missing")).rejects.toThrow(
+      'Goal "missing" is not archived or in the trash',
+    );
+
+    await manager.deleteGoal("done-goal");
+    expect(await manager.purgeTrash()).toEqual([]);
+    expect(
+      await manager.purgeTrash(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000)),
+    ).toEqual(["done-goal"]);
+    expect(await manager.listDeletedGoals()).toEqual([]);
+  });
+
+  it("should keep every deleted goal of the same name in the trash", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    await manager.createGoal("repeat", "# First");
+    const first = await manager.deleteGoal("repeat");
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await manager.createGoal("repeat", "# Second");
+    const second = await manager.deleteGoal("repeat");
+    expect(await manager.listDeletedGoals()).toHaveLength(2);
+
+    // The most recently deleted goal is restored by default
+    await manager.restoreGoal("repeat");
+    expect(await manager.getPlan("repeat")).toBe("# Second");
+
+    await manager.deleteGoal("repeat");
+    await manager.restoreGoal("repeat", first.deleted_at);
+    expect(await manager.getPlan("repeat")).toBe("# First");
+    await expect(
+      manager.restoreGoal("other", second.deleted_at),
+    ).rejects.toThrow(
+      `Goal "other" deleted at ${second.deleted_at} is not in the trash`,
+    );
+  });
+
+  it("should keep a history of plan versions", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    await manager.createGoal("history", "# Plan\n\n- [ ] Task\n");
+    await manager.completeTask("history", "Task");
+    await manager.updatePlan("history", "# Broken\n", "Rewrite");
+    await manager.updatePlan("history", "# Broken\n");
+
+    const versions = await manager.listPlanVersions("history");
+    expect(versions.map(({ version, note }) => [version, note])).toEqual([
+      [1, "Created goal"],
+      [2, 'Marked task "Task" as done'],
+      [3, "Rewrite"],
+    ]);
+    expect(await manager.getPlanVersion("history", 2)).toBe(
+      "# Plan\n\n- [x] Task\n",
+    );
+    expect(await manager.diffPlanVersions("history", 2, 3)).toBe(
+      [
+        "--- history/plan.md (version 2)",
+        "+++ history/plan.md (version 3)",
+        "@@ -1,3 +1,1 @@",
+        "-# Plan",
+        "-",
+        "-- [x] Task",
+        "+# Broken",
+        "",
+      ].join("\n"),
+    );
+
+    await manager.revertPlan("history", 2);
+    expect(await manager.getPlan("history")).toBe("# Plan\n\n- [x] Task\n");
+    expect((await manager.listPlanVersions("history"))[3]).toMatchObject({
+      version: 4,
+      note: "Reverted to version 2",
+    });
+    await expect(manager.getPlanVersion("history", 9)).rejects.toThrow(
+      'Version 9 of goal "history" does not exist',
+    );
+  });
+
+  it("should start the history of existing plans from their content", async () => {
+    const goalDir = join(WORKSPACE_PATH, ".goals", "goals", "legacy");
+    await mkdir(goalDir, { recursive: true });
+    await writeFile(join(goalDir, "plan.md"), "# Legacy");
+
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+    await manager.updatePlan("legacy", "# Updated");
+
+    const versions = await manager.listPlanVersions("legacy");
+    expect(versions.map(({ note }) => note)).toEqual([null, null]);
+    expect(await manager.getPlanVersion("legacy", 1)).toBe("# Legacy");
+  });
+
+  it("should record work sessions in the goal journal", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+    await manager.createGoal("journal", "");
+
+    await expect(
+      manager.endSession("journal", { summary: "Nothing" }),
+    ).rejects.toThrow('Goal "journal" has no open session');
+
+    await manager.startSession("journal");
+    const ended = await manager.endSession("journal", {
+      summary: "Wrote the parser",
+      files_touched: ["src/parser.ts"],
+      next_steps: ["Add tests"],
+    });
+    expect(ended).toMatchObject({
+      session: 1,
+      summary: "Wrote the parser",
+      files_touched: ["src/parser.ts"],
+      next_steps: ["Add tests"],
+    });
+    expect(ended.ended_at).not.toBeNull();
+
+    // A session that was never ended is closed by the next one
+    await manager.startSession("journal");
+    const third = await manager.startSession("journal");
+    expect(third.session).toBe(3);
+
+    const sessions = await manager.listSessions("journal");
+    expect(sessions[1].ended_at).toBe(third.started_at);
+    expect(sessions[1].summary).toBeNull();
+    expect(await manager.getLastSession("journal")).toEqual(ended);
+  });
+
+  it("should search plans and learnings with filters", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    await manager.createGoal(
+      "storage",
+      "# Storage\n\nMake writes safe.\n\n## Approach\n\nUse file locking for state.json.\n",
+    );
+    await manager.createGoal("docs", "# Docs\n\nWrite documentation.");
+    await manager.createLearning(
+      {
+        title: "Advisory locks",
+        context: "Two servers wrote state at once",
+        details: "Lock files guard state.json",
+        rationale: "File locking is portable",
+        alternatives: "",
+        references: "",
+      },
+      "storage",
+    );
+
+    const results = await manager.search("file locking");
+    expect(results.map((r) => [r.kind, r.path, r.section])).toEqual([
+      [
+        "learning",
+        expect.stringMatching(/^\.goals\/goals\/storage\/learnings\/.+\.md$/),
+        "Rationale",
+      ],
+      ["plan", ".goals/goals/storage/plan.md", "Approach"],
+    ]);
+    expect(results.find((r) => r.kind === "plan")).toMatchObject({
+      line: 7,
+      snippet: "Use file locking for state.json.",
+    });
+
+    const rationale = await manager.search("locking", { section: "rationale" });
+    expect(rationale).toHaveLength(1);
+    expect(rationale[0].kind).toBe("learning");
+
+    expect(await manager.search("locking", { goal: "docs" })).toEqual([]);
+    expect(await manager.search("locking", { until: "2000-01-01" })).toEqual(
+      [],
+    );
+    expect(await manager.search("nonexistent words")).toEqual([]);
+    await expect(
+      manager.search("locking", { since: "garbage" }),
+    ).rejects.toThrow('Invalid since date "garbage"');
+  });
+
+  it("should name goals from titles and reject unsafe names", async () => {
+    const manager = new GoalManager(WORKSPACE_PATH);
+    await manager.init();
+
+    const goal = await manager.createGoal("Fix Login Bug!", "# Fix login");
+    expect(goal).toMatchObject({
+      name: "fix-login-bug",
+      title: "Fix Login Bug!",
+    });
+    expect((await manager.getGoal("fix-login-bug"))?.title).toBe(
+      "Fix Login Bug!",
+    );
+    expect(
+      (await manager.createGoal("plain-name", "# Plain")).title,
+    ).toBeUndefined();
+
+    for (const [title, name] of [
+      ["Fix login/logout bug", "fix-login-logout-bug"],
+      [".hidden idea", "hidden-idea"],
+      ["../../etc", "etc"],
+    ]) {
+      expect(await manager.createGoal(title, "# Titled")).toMatchObject({
+        name,
+        title,
+      });
+    }
+    await expect(manager.createGoal("List", "# List")).rejects.toThrow(
+      'Invalid goal name "list": it is reserved',
+    );
+    await expect(manager.createGoal("a".repeat(65), "# Long")).rejects.toThrow(
+      "at most 64 characters",
+    );
+    await expect(manager.createGoal("???", "# Nothing")).rejects.toThrow(
+      "at least one letter or digit",
+    );
+
+    for (const name of ["../fix-login-bug", "..", ".hidden", "a\\b"]) {
+      await expect(manager.getPlan(name)).rejects.toThrow("Invalid goal name");
+      await expect(manager.updatePlan(name, "# Hacked")).rejects.toThrow(
+        "Invalid goal name",
+      );
+      await expect(manager.setActiveGoal(name)).rejects.toThrow(
+        "Invalid goal name",
+      );
+      await expect(manager.deleteGoal(name)).rejects.toThrow(
+        "Invalid goal name",
+      );
+      await expect(manager.listLearnings(name)).rejects.toThrow(
+        "Invalid goal name",
+      );
+    }
+    await expect(
+      manager.getLearning("../plan.md", "fix-login-bug"),
+    ).rejects.toThrow('Invalid learning name "../plan.md"');
+    await expect(
+      manager.copyGoalTo("fix-login-bug", manager, { targetName: "Copy" }),
+    ).rejects.toThrow('Invalid goal name "Copy"');
+  });
 });
@@ -1,6 +1,45 @@
-import { join } from "path";
-import { mkdir, readFile, writeFile, readdir } from "fs/promises";
+import { dirname, join } from "path";
+import { cp, mkdir, readFile, readdir, rename, rm, stat } from "fs/promises";
 import { existsSync, statSync } from "fs";
+import {
+  describePlan,
+  FrontMatterValue,
+  parsePlan,
+  parseProgress,
+  PlanDocument,
+  PlanProgress,
+  PlanTask,
+  replaceSection,
+  SectionUpdate,
+  setTaskDone,
+} from "./markdown.js";
+import {
+  SearchDocument,
+  searchDocuments,
+  SearchOptions,
+  SearchResult,
+} from "./search.js";
+import { unifiedDiff } from "./diff.js";
+import {
+  Briefing,
+  BriefingOptions,
+  BriefingSection,
+  renderBriefing,
+} from "./briefing.js";
+import {
+  readJsonFile,
+  updateJsonFile,
+  withFileLock,
+  writeFileAtomic,
+  writeFileExclusive,
+} from "./storage.js";
+import {
+  assertSafeGoalName,
+  assertSafeLearningFilename,
+  toGoalName,
+  validateGoalName,
+} from "./names.js";
+import { GoalsError } from "./errors.js";
 
 export interface GoalState {
   active_goal: string | null;
@@ -9,9 +48,164 @@ export interface GoalState {
 
 export interface Goal {
   name: string;
+  title?: string; // display title, when the goal was named from one
   created_at: string;
   last_updated: string;
   planPath?: string;
+  parent?: string | null; // name of the goal this is a sub-goal of
+  depends_on?: string[]; // names of goals that must be done before this one
+  archived_at?: string; // set while the goal is in the archive
+  deleted_at?: string; // set while the goal is in the trash
+}
+
+// A goal in another workspace is referenced as "workspace:goal"
+export interface GoalReference {
+  workspace: string | null;
+  goal: string;
+}
+
+export function parseGoalReference(reference: string): GoalReference {
+  const separator = reference.indexOf(":");
+  if (separator === -1) {
+    return { workspace: null, goal: reference };
+  }
+  return {
+    workspace: reference.slice(0, separator),
+    goal: reference.slice(separator + 1),
+  };
+}
+
+// Looks up goals in other workspaces for cross-workspace dependencies
+export interface GoalResolver {
+  getGoalStatus(workspace: string, goal: string): Promise<GoalStatus | null>;
+}
+
+export interface CopyGoalOptions {
+  targetName?: string;
+  // Name of this manager's workspace. When given, dependencies on goals in
+  // this workspace are rewritten as "workspace:goal" references in the copy.
+  sourceWorkspace?: string;
+}
+
+export interface GoalRelations {
+  parent?: string | null;
+  depends_on?: string[];
+}
+
+export interface CreateGoalOptions extends GoalRelations {
+  title?: string;
+  status?: InitialGoalStatus; // defaults to active
+}
+
+export const GOAL_STATUSES = [
+  "draft",
+  "active",
+  "blocked",
+  "paused",
+  "done",
+  "abandoned",
+] as const;
+
+export type GoalStatus = (typeof GOAL_STATUSES)[number];
+
+// Goals start out active, or as drafts while their plan is still being shaped
+export const INITIAL_GOAL_STATUSES = ["draft", "active"] as const;
+
+export type InitialGoalStatus = (typeof INITIAL_GOAL_STATUSES)[number];
+
+// Statuses that mean a goal no longer needs attention
+export const FINISHED_GOAL_STATUSES: GoalStatus[] = ["done", "abandoned"];
+
+const GOAL_STATUS_TRANSITIONS: Record<GoalStatus, GoalStatus[]> = {
+  draft: ["active", "abandoned"],
+  active: ["blocked", "paused", "done", "abandoned"],
+  blocked: ["active", "paused", "abandoned"],
+  paused: ["active", "abandoned"],
+  done: ["active"],
+  abandoned: ["draft", "active"],
+};
+
+export interface GoalStatusChange {
+  status: GoalStatus;
+  reason: string | null;
+  changed_at: string;
+}
+
+export interface GoalStatusInfo {
+  status: GoalStatus;
+  reason: string | null;
+  updated_at: string | null; // null if the status has never been set
+  history: GoalStatusChange[];
+}
+
+// Set in the plan's front matter, most urgent first
+export const GOAL_PRIORITIES = ["critical", "high", "medium", "low"] as const;
+export type GoalPriority = (typeof GOAL_PRIORITIES)[number];
+
+export const GOAL_SORT_KEYS = ["priority", "due", "name", "status"] as const;
+export type GoalSortKey = (typeof GOAL_SORT_KEYS)[number];
+
+export interface GoalSummary {
+  name: string;
+  description: string | null;
+  status: GoalStatus;
+  owner: string | null;
+  priority: GoalPriority | null;
+  tags: string[];
+  due: string | null; // YYYY-MM-DD
+  overdue: boolean; // past its due date and not finished
+}
+
+export interface GoalQuery {
+  status?: GoalStatus;
+  priority?: GoalPriority;
+  tag?: string;
+  owner?: string;
+  due_before?: string; // YYYY-MM-DD, inclusive
+  overdue?: boolean;
+  sort?: GoalSortKey; // defaults to priority, then due date, then name
+}
+
+export interface PlanVersion {
+  version: number; // 1-based, in the order the plan was written
+  timestamp: string;
+  note: string | null; // why the plan was changed, if given
+  filename: string; // snapshot file in the goal's history directory
+}
+
+export interface ArchivedGoal extends GoalSummary {
+  archived_at: string;
+}
+
+export interface DeletedGoal {
+  name: string;
+  deleted_at: string;
+  expires_at: string; // when the goal is purged from the trash for good
+}
+
+export interface Session {
+  session: number; // 1-based, in the order sessions were started
+  started_at: string;
+  ended_at: string | null; // null while the session is open
+  summary: string | null;
+  files_touched: string[];
+  next_steps: string[];
+}
+
+export interface SessionEnd {
+  summary: string;
+  files_touched?: string[];
+  next_steps?: string[];
+}
+
+// Deleted goals can be restored from the trash for this many days
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface GoalTreeNode extends GoalSummary {
+  parent: string | null;
+  depends_on: string[];
+  blocked_by: string[]; // dependencies that are not done yet
+  children: GoalTreeNode[];
 }
 
 export interface Learning {
@@ -24,6 +218,13 @@ export interface Learning {
   references: string;
 }
 
+export interface LearningSummary {
+  timestamp: string;
+  title: string;
+  filename: string;
+  goal: string | null; // null for workspace-level learnings
+}
+
 export class GoalManager {
   private readonly goalsDir: string;
   private readonly statePath: string;
@@ -32,14 +233,20 @@ export class GoalManager {
     last_updated: new Date().toISOString(),
   };
 
-  constructor(workspacePath: string) {
+  private readonly resolver: GoalResolver | null;
+  private activeGoalOverride: string | null | undefined;
+
+  constructor(workspacePath: string, resolver?: GoalResolver) {
     this.goalsDir = join(workspacePath, ".goals");
     this.statePath = join(this.goalsDir, "state.json");
+    this.resolver = resolver ?? null;
   }
 
   async init(): Promise<void> {
     await this.ensureDirectoryStructure();
     await this.loadState();
+    await this.migrateGoalMetadata();
+    await this.purgeTrash();
   }
 
   private async ensureDirectoryStructure(): Promise<void> {
@@ -51,40 +258,39 @@ export class GoalManager {
   }
 
   private async loadState(): Promise<void> {
-    try {
-      const data = await readFile(this.statePath, "utf-8");
-      this.state = JSON.parse(data);
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-        await this.saveState();
-      } else {
-        throw error;
-      }
+    if (existsSync(this.statePath)) {
+      this.state = await readJsonFile(this.statePath, () => this.state);
+    } else {
+      await this.updateState((state) => state);
     }
   }
 
-  private async saveState(): Promise<void> {
-    await writeFile(this.statePath, JSON.stringify(this.state, null, 2));
+  // Applies update to the latest state on disk, so changes made by other
+  // processes sharing this workspace are not overwritten.
+  private async updateState(
+    update: (state: GoalState) => GoalState,
+  ): Promise<void> {
+    this.state = await updateJsonFile(this.statePath, () => this.state, update);
   }
 
   private formatLearningContent(learning: Learning): string {
     return `## ${learning.title}
 
-    ### Context
-    ${learning.context}
+### Context
+${learning.context}
 
-    ### Details
-    ${learning.details}
+### Details
+${learning.details}
 
-    ### Rationale
-    ${learning.rationale}
+### Rationale
+${learning.rationale}
 
-    ### Alternatives Considered
-    ${learning.alternatives}
+### Alternatives Considered
+${learning.alternatives}
 
-    ### References
-    ${learning.references}
-    `;
+### References
+${learning.references}
+`;
   }
 
   private formatTimestampForFilename(timestamp: string): string {
@@ -105,30 +311,672 @@ export class GoalManager {
     return new Date().toISOString();
   }
 
-  async createGoal(name: string, planContent: string): Promise<Goal> {
-    const goalDir = join(this.goalsDir, "goals", name);
+  // Names that are not valid slugs, such as "Fix login bug", are turned into
+  // one ("fix-login-bug") and kept as the goal's title
+  async createGoal(
+    requestedName: string,
+    planContent: string,
+    options: CreateGoalOptions = {},
+  ): Promise<Goal> {
+    const name = toGoalName(requestedName);
+    validateGoalName(name);
+    const title =
+      options.title ?? (name !== requestedName ? requestedName : undefined);
+    const relations: GoalRelations = {
+      parent: options.parent,
+      depends_on: options.depends_on,
+    };
+
+    const goalDir = this.getGoalDir(name);
     if (existsSync(goalDir)) {
-      throw new Error(`Goal "${name}" already exists`);
+      throw new GoalsError("GOAL_EXISTS", `Goal "${name}" already exists`);
     }
+    await this.validateRelations(name, relations);
 
-    await mkdir(goalDir, { recursive: true });
+    // A non-recursive mkdir fails if another process created the goal first
+    await mkdir(join(this.goalsDir, "goals"), { recursive: true });
+    try {
+      await mkdir(goalDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        throw new GoalsError("GOAL_EXISTS", `Goal "${name}" already exists`);
+      }
+      throw error;
+    }
     await mkdir(join(goalDir, "learnings"), { recursive: true });
 
     const planPath = join(goalDir, "plan.md");
-    await writeFile(planPath, planContent);
+    await writeFileAtomic(planPath, planContent);
+    await this.recordPlanVersion(name, planContent, "Created goal");
+
+    const createdAt = GoalManager.getCurrentTimestamp();
+    const initialStatus = options.status ?? "active";
+    const status: GoalStatusInfo = {
+      status: initialStatus,
+      reason: null,
+      updated_at: createdAt,
+      history: [{ status: initialStatus, reason: null, changed_at: createdAt }],
+    };
+    await writeFileAtomic(
+      this.getStatusPath(name),
+      JSON.stringify(status, null, 2),
+    );
 
     const goal: Goal = {
       name,
-      created_at: new Date().toISOString(),
-      last_updated: new Date().toISOString(),
-      planPath,
+      ...(title !== undefined && { title }),
+      created_at: createdAt,
+      last_updated: createdAt,
+      parent: relations.parent ?? null,
+      depends_on: relations.depends_on ?? [],
     };
+    await this.saveGoalMetadata(goal);
+
+    return { ...goal, planPath };
+  }
+
+  private getGoalDir(name: string): string {
+    assertSafeGoalName(name);
+    return join(this.goalsDir, "goals", name);
+  }
+
+  private getMetadataPath(name: string): string {
+    return join(this.getGoalDir(name), "goal.json");
+  }
+
+  private async saveGoalMetadata(goal: Goal): Promise<void> {
+    const { planPath, ...metadata } = goal;
+    await writeFileAtomic(
+      this.getMetadataPath(goal.name),
+      JSON.stringify(metadata, null, 2),
+    );
+  }
+
+  private async updateGoalMetadata(
+    name: string,
+    update: (goal: Goal) => Goal,
+  ): Promise<Goal> {
+    const goal = await updateJsonFile<Goal>(
+      this.getMetadataPath(name),
+      () => {
+        throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+      },
+      update,
+    );
+    return { ...goal, planPath: join(this.getGoalDir(name), "plan.md") };
+  }
+
+  async getGoal(name: string): Promise<Goal | null> {
+    const metadataPath = this.getMetadataPath(name);
+    if (!existsSync(metadataPath)) {
+      return null;
+    }
+
+    const metadata: Goal = JSON.parse(await readFile(metadataPath, "utf-8"));
+    return { ...metadata, planPath: join(this.getGoalDir(name), "plan.md") };
+  }
+
+  async setGoalRelations(
+    name: string,
+    relations: GoalRelations,
+  ): Promise<Goal> {
+    if (!(await this.getGoal(name))) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+    await this.validateRelations(name, relations);
+
+    return this.updateGoalMetadata(name, (goal) => ({
+      ...goal,
+      parent: relations.parent !== undefined ? relations.parent : goal.parent,
+      depends_on: relations.depends_on ?? goal.depends_on,
+      last_updated: GoalManager.getCurrentTimestamp(),
+    }));
+  }
+
+  private async getAllGoals(): Promise<Map<string, Goal>> {
+    const goals = new Map<string, Goal>();
+    for (const name of await this.listGoals()) {
+      const goal = await this.getGoal(name);
+      if (goal) goals.set(name, goal);
+    }
+    return goals;
+  }
+
+  private async validateRelations(
+    name: string,
+    relations: GoalRelations,
+  ): Promise<void> {
+    const goals = await this.getAllGoals();
+    const { parent, depends_on: dependsOn } = relations;
+
+    if (parent && parseGoalReference(parent).workspace) {
+      throw new GoalsError(
+        "INVALID_RELATION",
+        `Parent goal "${parent}" must be in the same workspace as "${name}"`,
+      );
+    }
+
+    for (const related of [...(parent ? [parent] : []), ...(dependsOn ?? [])]) {
+      if (related === name) {
+        throw new GoalsError(
+          "INVALID_RELATION",
+          `Goal "${name}" cannot depend on itself`,
+        );
+      }
+
+      const reference = parseGoalReference(related);
+      if (reference.workspace) {
+        if (!this.resolver) {
+          throw new GoalsError(
+            "INVALID_RELATION",
+            `Cannot resolve "${related}": cross-workspace references are not available`,
+          );
+        }
+        if (
+          (await this.resolver.getGoalStatus(
+            reference.workspace,
+            reference.goal,
+          )) === null
+        ) {
+          throw new GoalsError(
+            "GOAL_NOT_FOUND",
+            `Goal "${related}" does not exist`,
+          );
+        }
+      } else if (!goals.has(related)) {
+        throw new GoalsError(
+          "GOAL_NOT_FOUND",
+          `Goal "${related}" does not exist`,
+        );
+      }
+    }
+
+    if (parent) {
+      // Walk up from the new parent; reaching this goal would form a loop
+      let ancestor: string | null | undefined = parent;
+      while (ancestor) {
+        if (ancestor === name) {
+          throw new GoalsError(
+            "INVALID_RELATION",
+            `Cannot make "${parent}" the parent of "${name}": it would create a cycle`,
+          );
+        }
+        ancestor = goals.get(ancestor)?.parent;
+      }
+    }
+
+    // Cycles are only detected within this workspace; dependencies on other
+    // workspaces are not followed.
+    for (const dependency of dependsOn ?? []) {
+      const stack = [dependency];
+      const seen = new Set<string>();
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current === name) {
+          throw new GoalsError(
+            "INVALID_RELATION",
+            `Cannot make "${name}" depend on "${dependency}": it would create a cycle`,
+          );
+        }
+        if (seen.has(current)) continue;
+        seen.add(current);
+        stack.push(...(goals.get(current)?.depends_on ?? []));
+      }
+    }
+  }
+
+  async getGoalTree(): Promise<GoalTreeNode[]> {
+    const goals = await this.getAllGoals();
+    const summaries = await this.getGoalSummaries();
+    const statuses = new Map<string, GoalStatus | null>(
+      summaries.map((s) => [s.name, s.status]),
+    );
+
+    // Archived goals still satisfy dependencies by their last status
+    for (const archived of await this.listArchivedGoals()) {
+      statuses.set(archived.name, archived.status);
+    }
+
+    for (const goal of goals.values()) {
+      for (const dependency of goal.depends_on ?? []) {
+        const reference = parseGoalReference(dependency);
+        if (reference.workspace && !statuses.has(dependency)) {
+          statuses.set(
+            dependency,
+            (await this.resolver?.getGoalStatus(
+              reference.workspace,
+              reference.goal,
+            )) ?? null,
+          );
+        }
+      }
+    }
+
+    const nodes = new Map<string, GoalTreeNode>(
+      summaries.map((summary) => {
+        const goal = goals.get(summary.name);
+        const dependsOn = goal?.depends_on ?? [];
+        return [
+          summary.name,
+          {
+            ...summary,
+            parent: goal?.parent ?? null,
+            depends_on: dependsOn,
+            blocked_by: dependsOn.filter((dep) => statuses.get(dep) !== "done"),
+            children: [],
+          },
+        ];
+      }),
+    );
 
+    const roots: GoalTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parent ? nodes.get(node.parent) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+    return roots;
+  }
+
+  // Copies a goal's plan, metadata, status and learnings into another
+  // workspace (or this one, under a new name).
+  async copyGoalTo(
+    name: string,
+    target: GoalManager,
+    options: CopyGoalOptions = {},
+  ): Promise<Goal> {
+    const source = await this.getGoal(name);
+    if (!source) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+
+    const targetName = options.targetName ?? name;
+    if (options.targetName !== undefined) {
+      validateGoalName(targetName);
+    }
+    const targetDir = target.getGoalDir(targetName);
+    if (existsSync(targetDir)) {
+      throw new GoalsError(
+        "GOAL_EXISTS",
+        `Goal "${targetName}" already exists`,
+      );
+    }
+
+    await mkdir(join(target.goalsDir, "goals"), { recursive: true });
+    await cp(this.getGoalDir(name), targetDir, {
+      recursive: true,
+      errorOnExist: true,
+      force: false,
+    });
+
+    // Relations within this workspace do not carry over to another one: the
+    // parent is dropped and dependencies point back here.
+    const sameWorkspace = target.goalsDir === this.goalsDir;
+    const { sourceWorkspace } = options;
+    const rewrite = (dependency: string) =>
+      !sameWorkspace &&
+      sourceWorkspace &&
+      !parseGoalReference(dependency).workspace
+        ? `${sourceWorkspace}:${dependency}`
+        : dependency;
+
+    return target.updateGoalMetadata(targetName, (goal) => ({
+      ...goal,
+      name: targetName,
+      parent: sameWorkspace ? goal.parent : null,
+      depends_on: (goal.depends_on ?? []).map(rewrite),
+      last_updated: GoalManager.getCurrentTimestamp(),
+    }));
+  }
+
+  // Moves a goal to another workspace. Goals left behind that depended on it
+  // now reference its new location, and it stops being the active goal here.
+  async moveGoalTo(
+    name: string,
+    target: GoalManager,
+    targetWorkspace: string,
+    options: CopyGoalOptions = {},
+  ): Promise<Goal> {
+    if (target.goalsDir === this.goalsDir) {
+      throw new GoalsError(
+        "GOAL_EXISTS",
+        `Goal "${name}" is already in this workspace`,
+      );
+    }
+
+    const goal = await this.copyGoalTo(name, target, options);
+    await rm(this.getGoalDir(name), { recursive: true, force: true });
+    await this.replaceReferences(name, `${targetWorkspace}:${goal.name}`);
+
+    await this.clearActiveGoal(name);
     return goal;
   }
 
+  private getArchiveDir(): string {
+    return join(this.goalsDir, "archive");
+  }
+
+  private getTrashDir(): string {
+    return join(this.goalsDir, "trash");
+  }
+
+  // Each deletion gets its own directory in the trash, so deleting a goal
+  // again does not destroy an earlier deleted goal of the same name
+  private getTrashEntryDir(name: string, deletedAt: string): string {
+    return join(
+      this.getTrashDir(),
+      `${name}@${this.formatTimestampForFilename(deletedAt)}`,
+    );
+  }
+
+  // Moves a goal directory between the goals, archive and trash directories
+  // and applies update to its metadata in the new location.
+  private async relocateGoal(
+    name: string,
+    source: string,
+    destination: string,
+    update: (goal: Goal) => Goal,
+  ): Promise<Goal> {
+    await mkdir(dirname(destination), { recursive: true });
+    await rename(source, destination);
+
+    const goal = await updateJsonFile<Goal>(
+      join(destination, "goal.json"),
+      () => {
+        throw new Error(`Goal "${name}" has no metadata`);
+      },
+      update,
+    );
+    return { ...goal, planPath: join(destination, "plan.md") };
+  }
+
+  // Archived goals are hidden from listings but keep their relations, so
+  // goals depending on them are not blocked if they were finished.
+  async archiveGoal(name: string): Promise<Goal> {
+    assertSafeGoalName(name);
+    if (!(await this.listGoals()).includes(name)) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+    if (existsSync(join(this.getArchiveDir(), name))) {
+      throw new GoalsError(
+        "GOAL_EXISTS",
+        `An archived goal named "${name}" already exists`,
+      );
+    }
+
+    const goal = await this.relocateGoal(
+      name,
+      this.getGoalDir(name),
+      join(this.getArchiveDir(), name),
+      (goal) => ({ ...goal, archived_at: GoalManager.getCurrentTimestamp() }),
+    );
+    await this.clearActiveGoal(name);
+    return goal;
+  }
+
+  // Moves a goal, or an archived goal, to the trash. Goals depending on it
+  // drop the dependency and its sub-goals become top-level goals. Earlier
+  // deleted goals of the same name stay in the trash alongside it.
+  async deleteGoal(name: string): Promise<DeletedGoal> {
+    assertSafeGoalName(name);
+    const source = (await this.listGoals()).includes(name)
+      ? this.getGoalDir(name)
+      : existsSync(join(this.getArchiveDir(), name))
+        ? join(this.getArchiveDir(), name)
+        : null;
+    if (!source) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+
+    const deletedAt = GoalManager.getCurrentTimestamp();
+    const goal = await this.relocateGoal(
+      name,
+      source,
+      this.getTrashEntryDir(name, deletedAt),
+      ({ archived_at, ...goal }) => ({ ...goal, deleted_at: deletedAt }),
+    );
+    await this.replaceReferences(name, null);
+    await this.clearActiveGoal(name);
+    return GoalManager.describeDeletedGoal(goal);
+  }
+
+  // Brings a goal back from the archive or, failing that, from the trash. If
+  // it was deleted more than once, the most recently deleted one is restored
+  // unless deletedAt picks another.
+  async restoreGoal(name: string, deletedAt?: string): Promise<Goal> {
+    assertSafeGoalName(name);
+    if ((await this.listGoals()).includes(name)) {
+      throw new GoalsError("GOAL_EXISTS", `Goal "${name}" already exists`);
+    }
+
+    const archived = join(this.getArchiveDir(), name);
+    const source =
+      deletedAt === undefined && existsSync(archived)
+        ? archived
+        : (await this.listTrashEntries())
+            .filter(
+              ({ goal }) =>
+                goal.name === name &&
+                (deletedAt === undefined ||
+                  Date.parse(goal.deleted_at) === Date.parse(deletedAt)),
+            )
+            .sort((a, b) =>
+              b.goal.deleted_at.localeCompare(a.goal.deleted_at),
+            )[0]?.dir;
+    if (!source) {
+      throw new GoalsError(
+        "GOAL_NOT_FOUND",
+        deletedAt === undefined
+          ? `Goal "${name}" is not archived or in the trash`
+          : `Goal "${name}" deleted at ${deletedAt} is not in the trash`,
+      );
+    }
+
+    return this.relocateGoal(
+      name,
+      source,
+      this.getGoalDir(name),
+      ({ archived_at, deleted_at, ...goal }) => ({
+        ...goal,
+        last_updated: GoalManager.getCurrentTimestamp(),
+      }),
+    );
+  }
+
+  async listArchivedGoals(): Promise<ArchivedGoal[]> {
+    const archiveDir = this.getArchiveDir();
+    if (!existsSync(archiveDir)) {
+      return [];
+    }
+
+    const archived: ArchivedGoal[] = [];
+    for (const name of await readdir(archiveDir)) {
+      const goalDir = join(archiveDir, name);
+      if (!statSync(goalDir).isDirectory()) continue;
+
+      const goal = await readJsonFile<Goal | null>(
+        join(goalDir, "goal.json"),
+        () => null,
+      );
+      const plan = existsSync(join(goalDir, "plan.md"))
+        ? await readFile(join(goalDir, "plan.md"), "utf-8")
+        : "";
+      const status = await readJsonFile(
+        join(goalDir, "status.json"),
+        GoalManager.defaultStatus,
+      );
+      archived.push({
+        ...GoalManager.summarize(name, plan, status.status),
+        archived_at:
+          goal?.archived_at ?? (await stat(goalDir)).mtime.toISOString(),
+      });
+    }
+    return archived;
+  }
+
+  async listDeletedGoals(): Promise<DeletedGoal[]> {
+    return (await this.listTrashEntries()).map(({ goal }) => goal);
+  }
+
+  // Goals trashed before entries were named by deletion time are in
+  // directories named after the goal alone
+  private async listTrashEntries(): Promise<
+    { dir: string; goal: DeletedGoal }[]
+  > {
+    const trashDir = this.getTrashDir();
+    if (!existsSync(trashDir)) {
+      return [];
+    }
+
+    const entries: { dir: string; goal: DeletedGoal }[] = [];
+    for (const entry of await readdir(trashDir)) {
+      const goalDir = join(trashDir, entry);
+      if (!statSync(goalDir).isDirectory()) continue;
+
+      const goal = await readJsonFile<Goal | null>(
+        join(goalDir, "goal.json"),
+        () => null,
+      );
+      entries.push({
+        dir: goalDir,
+        goal: GoalManager.describeDeletedGoal({
+          name: goal?.name ?? entry,
+          created_at: goal?.created_at ?? "",
+          last_updated: goal?.last_updated ?? "",
+          deleted_at:
+            goal?.deleted_at ?? (await stat(goalDir)).mtime.toISOString(),
+        }),
+      });
+    }
+    return entries;
+  }
+
+  private static describeDeletedGoal(goal: Goal): DeletedGoal {
+    const deletedAt = new Date(goal.deleted_at!);
+    const expiresAt = new Date(
+      deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+    return {
+      name: goal.name,
+      deleted_at: deletedAt.toISOString(),
+      expires_at: expiresAt.toISOString(),
+    };
+  }
+
+  // Permanently removes goals whose retention window in the trash has passed
+  async purgeTrash(now: Date = new Date()): Promise<string[]> {
+    const purged: string[] = [];
+    for (const { dir, goal } of await this.listTrashEntries()) {
+      if (new Date(goal.expires_at) <= now) {
+        await rm(dir, { recursive: true, force: true });
+        purged.push(goal.name);
+      }
+    }
+    return purged;
+  }
+
+  private async clearActiveGoal(name: string): Promise<void> {
+    if (this.state.active_goal !== name) return;
+
+    await this.updateState((state) =>
+      state.active_goal === name
+        ? {
+            ...state,
+            active_goal: null,
+            last_updated: new Date().toISOString(),
+          }
+        : state,
+    );
+  }
+
+  // Points dependencies on a goal at a replacement reference, or drops them
+  // when replacement is null. Sub-goals of the goal become top-level goals.
+  private async replaceReferences(
+    name: string,
+    replacement: string | null,
+  ): Promise<void> {
+    for (const goal of (await this.getAllGoals()).values()) {
+      const dependsOn = goal.depends_on ?? [];
+      if (goal.parent !== name && !dependsOn.includes(name)) continue;
+
+      await this.updateGoalMetadata(goal.name, (current) => ({
+        ...current,
+        parent: current.parent === name ? null : current.parent,
+        depends_on: (current.depends_on ?? []).flatMap((dependency) =>
+          dependency !== name ? [dependency] : replacement ? [replacement] : [],
+        ),
+      }));
+    }
+  }
+
+  // Points "workspace:goal" dependencies at a workspace's new name
+  async renameWorkspaceReferences(
+    workspace: string,
+    newWorkspace: string,
+  ): Promise<void> {
+    const rename = (dependency: string) => {
+      const reference = parseGoalReference(dependency);
+      return reference.workspace === workspace
+        ? `${newWorkspace}:${reference.goal}`
+        : dependency;
+    };
+
+    for (const goal of (await this.getAllGoals()).values()) {
+      const dependsOn = goal.depends_on ?? [];
+      if (dependsOn.every((dependency) => rename(dependency) === dependency)) {
+        continue;
+      }
+
+      await this.updateGoalMetadata(goal.name, (current) => ({
+        ...current,
+        depends_on: (current.depends_on ?? []).map(rename),
+      }));
+    }
+  }
+
+  private async touchGoal(name: string): Promise<void> {
+    if (!existsSync(this.getMetadataPath(name))) return;
+
+    await this.updateGoalMetadata(name, (goal) => ({
+      ...goal,
+      last_updated: GoalManager.getCurrentTimestamp(),
+    }));
+  }
+
+  // Goals created before goal.json existed only have a directory. Synthesize
+  // their metadata from file modification times so getGoal works for them.
+  private async migrateGoalMetadata(): Promise<void> {
+    for (const name of await this.listGoals()) {
+      if (existsSync(this.getMetadataPath(name))) continue;
+
+      const goalDir = this.getGoalDir(name);
+      const times = [(await stat(goalDir)).mtime];
+      for (const file of ["plan.md", "status.json"]) {
+        if (existsSync(join(goalDir, file))) {
+          times.push((await stat(join(goalDir, file))).mtime);
+        }
+      }
+      const learningsDir = join(goalDir, "learnings");
+      if (existsSync(learningsDir)) {
+        for (const entry of await readdir(learningsDir)) {
+          times.push((await stat(join(learningsDir, entry))).mtime);
+        }
+      }
+
+      const sorted = times.map((time) => time.getTime()).sort((a, b) => a - b);
+      await this.saveGoalMetadata({
+        name,
+        created_at: new Date(sorted[0]).toISOString(),
+        last_updated: new Date(sorted[sorted.length - 1]).toISOString(),
+      });
+    }
+  }
+
   async getPlan(name: string): Promise<string | null> {
-    const planPath = join(this.goalsDir, "goals", name, "plan.md");
+    const planPath = join(this.getGoalDir(name), "plan.md");
     if (!existsSync(planPath)) {
       return null;
     }
@@ -140,28 +988,276 @@ export class GoalManager {
     }
   }
 
-  async updatePlan(name: string, planContent: string): Promise<void> {
-    const planPath = join(this.goalsDir, "goals", name, "plan.md");
+  async updatePlan(
+    name: string,
+    planContent: string,
+    note?: string,
+  ): Promise<void> {
+    await this.modifyPlan(name, () => planContent, note ?? null);
+  }
+
+  // Re-reads the plan under its lock so concurrent edits are applied in turn
+  // rather than overwriting each other. Every write is kept in the history.
+  private async modifyPlan(
+    name: string,
+    modify: (plan: string) => string,
+    note: string | null,
+  ): Promise<string> {
+    const planPath = join(this.getGoalDir(name), "plan.md");
     if (!existsSync(planPath)) {
-      throw new Error(`Goal "${name}" does not exist`);
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
     }
 
-    await writeFile(planPath, planContent);
+    const updated = await withFileLock(planPath, async () => {
+      const current = await readFile(planPath, "utf-8");
+      const content = modify(current);
+
+      // Goals created before history was kept start from their current plan
+      if ((await this.listPlanVersions(name)).length === 0) {
+        await this.recordPlanVersion(name, current, null);
+      }
+      await writeFileAtomic(planPath, content);
+      await this.recordPlanVersion(name, content, note);
+      return content;
+    });
+    await this.touchGoal(name);
+    return updated;
   }
 
-  async getGoalDescription(name: string): Promise<string | null> {
+  private getHistoryDir(name: string): string {
+    return join(this.getGoalDir(name), "history");
+  }
+
+  // Snapshots a plan as the next version, unless it matches the latest one
+  private async recordPlanVersion(
+    name: string,
+    content: string,
+    note: string | null,
+  ): Promise<void> {
+    const historyDir = this.getHistoryDir(name);
+    await mkdir(historyDir, { recursive: true });
+
+    await updateJsonFile<PlanVersion[]>(
+      join(historyDir, "index.json"),
+      () => [],
+      async (versions) => {
+        const latest = versions[versions.length - 1];
+        if (
+          latest &&
+          (await readFile(join(historyDir, latest.filename), "utf-8")) ===
+            content
+        ) {
+          return versions;
+        }
+
+        // Keep snapshot filenames unique when writes share a millisecond
+        let timestamp = GoalManager.getCurrentTimestamp();
+        if (latest && timestamp <= latest.timestamp) {
+          timestamp = new Date(Date.parse(latest.timestamp) + 1).toISOString();
+        }
+
+        const version: PlanVersion = {
+          version: versions.length + 1,
+          timestamp,
+          note,
+          filename: `${this.formatTimestampForFilename(timestamp)}.md`,
+        };
+        await writeFileAtomic(join(historyDir, version.filename), content);
+        return [...versions, version];
+      },
+    );
+  }
+
+  async listPlanVersions(name: string): Promise<PlanVersion[]> {
+    if (!existsSync(this.getGoalDir(name))) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+
+    return readJsonFile<PlanVersion[]>(
+      join(this.getHistoryDir(name), "index.json"),
+      () => [],
+    );
+  }
+
+  async getPlanVersion(name: string, version: number): Promise<string> {
+    const entry = (await this.listPlanVersions(name)).find(
+      (v) => v.version === version,
+    );
+    if (!entry) {
+      throw new GoalsError(
+        "VERSION_NOT_FOUND",
+        `Version ${version} of goal "${name}" does not exist`,
+      );
+    }
+
+    return readFile(join(this.getHistoryDir(name), entry.filename), "utf-8");
+  }
+
+  async diffPlanVersions(
+    name: string,
+    from: number,
+    to: number,
+  ): Promise<string> {
+    return unifiedDiff(
+      await this.getPlanVersion(name, from),
+      await this.getPlanVersion(name, to),
+      {
+        fromLabel: `${name}/plan.md (version ${from})`,
+        toLabel: `${name}/plan.md (version ${to})`,
+      },
+    );
+  }
+
+  // Restores an earlier version by writing it as a new version, so the
+  // revert itself can be undone.
+  async revertPlan(
+    name: string,
+    version: number,
+    note?: string,
+  ): Promise<string> {
+    const content = await this.getPlanVersion(name, version);
+    return this.modifyPlan(
+      name,
+      () => content,
+      note ?? `Reverted to version ${version}`,
+    );
+  }
+
+  async updatePlanSection(
+    name: string,
+    section: string,
+    update: SectionUpdate,
+    note?: string,
+  ): Promise<string> {
+    return this.modifyPlan(
+      name,
+      (plan) => replaceSection(plan, section, update),
+      note ?? `Updated section "${section}"`,
+    );
+  }
+
+  async getGoalProgress(name: string): Promise<PlanProgress> {
     const plan = await this.getPlan(name);
-    if (!plan) return null;
+    if (plan === null) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
 
-    try {
-      const matches = plan.match(/^#\s+(.+?)\n\n(.+?)(?=\n\n|$)/s);
-      if (!matches) return null;
+    return parseProgress(plan);
+  }
 
-      const [, title, description] = matches;
-      return `${title}\n\n${description}`;
-    } catch (error) {
-      return null;
+  // How many of the newest learnings a briefing includes
+  private static readonly BRIEFING_LEARNINGS = 5;
+
+  // Assembles what is needed to resume work on a goal into one document
+  // that fits the budget. The current phase and last session are kept in
+  // full before the plan and learnings.
+  async getBriefing(
+    name: string,
+    options: BriefingOptions = {},
+  ): Promise<Briefing> {
+    const plan = await this.getPlan(name);
+    if (plan === null) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+
+    const progress = parseProgress(plan);
+    const { status } = await this.getGoalStatus(name);
+    const heading =
+      `# Briefing: ${name}\n\n` +
+      `Status: ${status}, ${progress.percent_complete}% complete (${progress.completed_tasks}/${progress.total_tasks} tasks)`;
+
+    const sections: BriefingSection[] = [];
+
+    const lastSession = await this.getLastSession(name);
+    if (lastSession) {
+      let content = `Ended ${lastSession.ended_at}: ${lastSession.summary}`;
+      if (lastSession.next_steps.length > 0) {
+        content += `\n\nNext steps:\n${lastSession.next_steps.map((step) => `- ${step}`).join("\n")}`;
+      }
+      if (lastSession.files_touched.length > 0) {
+        content += `\n\nFiles touched: ${lastSession.files_touched.join(", ")}`;
+      }
+      sections.push({ title: "Last session", content, priority: 1 });
+    }
+
+    const currentPhase = progress.phases.find((phase) => !phase.complete);
+    if (currentPhase) {
+      const openTasks = currentPhase.tasks.filter((task) => !task.done);
+      sections.push({
+        title: "Current phase",
+        content:
+          `[${currentPhase.status}] ${currentPhase.title} (${currentPhase.percent_complete}% complete)` +
+          openTasks.map((task) => `\n- [ ] ${task.text}`).join(""),
+        priority: 0,
+      });
+    }
+
+    const otherTasks = progress.tasks.filter(
+      (task) => !task.done && task.phase !== currentPhase?.title,
+    );
+    if (otherTasks.length > 0) {
+      sections.push({
+        title: "Open tasks",
+        content: otherTasks
+          .map(
+            (task) =>
+              `- [ ] ${task.text}${task.phase ? ` (${task.phase})` : ""}`,
+          )
+          .join("\n"),
+        priority: 2,
+      });
     }
+
+    sections.push({ title: "Plan", content: plan.trim(), priority: 3 });
+
+    const learnings = (await this.listLearnings(name))
+      .slice(-GoalManager.BRIEFING_LEARNINGS)
+      .reverse();
+    if (learnings.length > 0) {
+      const contents = await Promise.all(
+        learnings.map((learning) => this.getLearning(learning.filename, name)),
+      );
+      sections.push({
+        title: "Recent learnings",
+        content: contents.map((content) => content!.trim()).join("\n\n"),
+        priority: 4,
+      });
+    }
+
+    return renderBriefing(heading, sections, options);
+  }
+
+  async completeTask(
+    name: string,
+    task: string,
+    done: boolean = true,
+  ): Promise<PlanTask> {
+    let completed: PlanTask | null = null;
+    await this.modifyPlan(
+      name,
+      (plan) => {
+        const updated = setTaskDone(plan, task, done);
+        completed = updated.task;
+        return updated.markdown;
+      },
+      `Marked task "${task}" as ${done ? "done" : "not done"}`,
+    );
+    return completed!;
+  }
+
+  async getPlanDocument(name: string): Promise<PlanDocument> {
+    const plan = await this.getPlan(name);
+    if (plan === null) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+
+    return parsePlan(plan);
+  }
+
+  async getGoalDescription(name: string): Promise<string | null> {
+    const plan = await this.getPlan(name);
+    if (plan === null) return null;
+    return describePlan(parsePlan(plan));
   }
 
   async listGoals(): Promise<string[]> {
@@ -177,31 +1273,393 @@ export class GoalManager {
     });
   }
 
-  async getGoalSummaries(): Promise<
-    Array<{ name: string; description: string | null }>
-  > {
+  private static summarize(
+    name: string,
+    plan: string,
+    status: GoalStatus,
+  ): GoalSummary {
+    const document = parsePlan(plan);
+    const { owner, priority, tags, due } = document.front_matter;
+    const first = (value: FrontMatterValue | undefined) =>
+      Array.isArray(value) ? value[0] : value;
+
+    const dueDate = first(due)?.match(/^\d{4}-\d{2}-\d{2}/)?.[0] ?? null;
+    const priorityValue = first(priority)?.toLowerCase();
+    return {
+      name,
+      description: describePlan(document),
+      status,
+      owner: first(owner) ?? null,
+      priority: GOAL_PRIORITIES.find((p) => p === priorityValue) ?? null,
+      tags: (Array.isArray(tags) ? tags : (tags?.split(",") ?? []))
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      due: dueDate,
+      overdue:
+        dueDate !== null &&
+        dueDate < new Date().toISOString().slice(0, 10) &&
+        !FINISHED_GOAL_STATUSES.includes(status),
+    };
+  }
+
+  private static compareGoals(
+    a: GoalSummary,
+    b: GoalSummary,
+    sort: GoalSortKey,
+  ): number {
+    const rank = (priority: GoalPriority | null) =>
+      priority ? GOAL_PRIORITIES.indexOf(priority) : GOAL_PRIORITIES.length;
+    // Goals without a due date sort after those with one
+    const byDue = (a.due ?? "9999").localeCompare(b.due ?? "9999");
+    const byPriority = rank(a.priority) - rank(b.priority);
+    const byName = a.name.localeCompare(b.name);
+
+    switch (sort) {
+      case "priority":
+        return byPriority || byDue || byName;
+      case "due":
+        return byDue || byPriority || byName;
+      case "status":
+        return (
+          GOAL_STATUSES.indexOf(a.status) - GOAL_STATUSES.indexOf(b.status) ||
+          byPriority ||
+          byName
+        );
+      case "name":
+        return byName;
+    }
+  }
+
+  private static matchesQuery(goal: GoalSummary, query: GoalQuery): boolean {
+    if (query.status && goal.status !== query.status) return false;
+    if (query.priority && goal.priority !== query.priority) return false;
+    if (
+      query.tag &&
+      !goal.tags.some((tag) => tag.toLowerCase() === query.tag!.toLowerCase())
+    ) {
+      return false;
+    }
+    if (query.owner && goal.owner !== query.owner) return false;
+    if (query.due_before && !(goal.due && goal.due <= query.due_before)) {
+      return false;
+    }
+    if (query.overdue !== undefined && goal.overdue !== query.overdue) {
+      return false;
+    }
+    return true;
+  }
+
+  async getGoalSummaries(query: GoalQuery = {}): Promise<GoalSummary[]> {
     const goals = await this.listGoals();
     const summaries = await Promise.all(
-      goals.map(async (name) => ({
-        name,
-        description: await this.getGoalDescription(name),
-      })),
+      goals.map(async (name) =>
+        GoalManager.summarize(
+          name,
+          (await this.getPlan(name)) ?? "",
+          (await this.getGoalStatus(name)).status,
+        ),
+      ),
+    );
+    return summaries
+      .filter((summary) => GoalManager.matchesQuery(summary, query))
+      .sort((a, b) => GoalManager.compareGoals(a, b, query.sort ?? "priority"));
+  }
+
+  private getStatusPath(name: string): string {
+    return join(this.getGoalDir(name), "status.json");
+  }
+
+  // Goals created before status tracking are treated as active
+  private static defaultStatus(): GoalStatusInfo {
+    return { status: "active", reason: null, updated_at: null, history: [] };
+  }
+
+  async getGoalStatus(name: string): Promise<GoalStatusInfo> {
+    if (!existsSync(this.getGoalDir(name))) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+
+    return readJsonFile(this.getStatusPath(name), GoalManager.defaultStatus);
+  }
+
+  async setGoalStatus(
+    name: string,
+    status: GoalStatus,
+    reason?: string,
+  ): Promise<GoalStatusInfo> {
+    if (!existsSync(this.getGoalDir(name))) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+
+    // The transition is checked against the latest status on disk
+    const updated = await updateJsonFile(
+      this.getStatusPath(name),
+      GoalManager.defaultStatus,
+      (current) => {
+        if (!GOAL_STATUS_TRANSITIONS[current.status].includes(status)) {
+          throw new GoalsError(
+            "INVALID_STATUS_TRANSITION",
+            `Cannot change goal "${name}" from ${current.status} to ${status}`,
+          );
+        }
+
+        const changedAt = GoalManager.getCurrentTimestamp();
+        return {
+          status,
+          reason: reason ?? null,
+          updated_at: changedAt,
+          history: [
+            ...current.history,
+            { status, reason: reason ?? null, changed_at: changedAt },
+          ],
+        };
+      },
+    );
+
+    await this.touchGoal(name);
+    return updated;
+  }
+
+  private getLearningsDir(goalName?: string): string {
+    return goalName
+      ? join(this.getGoalDir(goalName), "learnings")
+      : join(this.goalsDir, "learnings");
+  }
+
+  async createLearning(
+    learning: Omit<Learning, "timestamp">,
+    goalName?: string,
+  ): Promise<LearningSummary> {
+    if (goalName && !existsSync(this.getGoalDir(goalName))) {
+      throw new GoalsError(
+        "GOAL_NOT_FOUND",
+        `Goal "${goalName}" does not exist`,
+      );
+    }
+
+    const learningsDir = this.getLearningsDir(goalName);
+    await mkdir(learningsDir, { recursive: true });
+
+    // Bump the timestamp if another learning, possibly written concurrently,
+    // already has the same millisecond
+    let timestamp = GoalManager.getCurrentTimestamp();
+    let filename: string;
+    while (true) {
+      filename = `${this.formatTimestampForFilename(timestamp)}.md`;
+      try {
+        await writeFileExclusive(
+          join(learningsDir, filename),
+          this.formatLearningContent({ ...learning, timestamp }),
+        );
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+        timestamp = new Date(Date.parse(timestamp) + 1).toISOString();
+      }
+    }
+    if (goalName) {
+      await this.touchGoal(goalName);
+    }
+
+    return {
+      timestamp,
+      title: learning.title,
+      filename,
+      goal: goalName ?? null,
+    };
+  }
+
+  async listLearnings(goalName?: string): Promise<LearningSummary[]> {
+    const learningsDir = this.getLearningsDir(goalName);
+    if (!existsSync(learningsDir)) {
+      return [];
+    }
+
+    const entries = (await readdir(learningsDir))
+      .filter((entry) => entry.endsWith(".md"))
+      .sort();
+
+    return Promise.all(
+      entries.map(async (filename) => {
+        const content = await readFile(join(learningsDir, filename), "utf-8");
+        const title = content.match(/^##\s+(.+)$/m);
+        return {
+          timestamp: this.parseTimestampFromFilename(filename),
+          title: title ? title[1].trim() : filename,
+          filename,
+          goal: goalName ?? null,
+        };
+      }),
+    );
+  }
+
+  async getLearning(
+    filename: string,
+    goalName?: string,
+  ): Promise<string | null> {
+    assertSafeLearningFilename(filename);
+    const learningPath = join(this.getLearningsDir(goalName), filename);
+    if (!existsSync(learningPath)) {
+      return null;
+    }
+
+    return readFile(learningPath, "utf-8");
+  }
+
+  async search(
+    query: string,
+    options: SearchOptions = {},
+  ): Promise<SearchResult[]> {
+    const documents: SearchDocument[] = [];
+    const goals =
+      options.goal !== undefined ? [options.goal] : await this.listGoals();
+
+    for (const goal of goals) {
+      const metadata = await this.getGoal(goal);
+      const plan = await this.getPlan(goal);
+      if (metadata && plan !== null) {
+        documents.push({
+          goal,
+          kind: "plan",
+          path: join(".goals", "goals", goal, "plan.md"),
+          timestamp: metadata.last_updated,
+          content: plan,
+        });
+      }
+    }
+
+    const learningSources: Array<string | undefined> =
+      options.goal !== undefined ? [options.goal] : [undefined, ...goals];
+    for (const goal of learningSources) {
+      for (const learning of await this.listLearnings(goal)) {
+        const content = await this.getLearning(learning.filename, goal);
+        if (content === null) continue;
+
+        documents.push({
+          goal: learning.goal,
+          kind: "learning",
+          path: join(
+            ".goals",
+            ...(goal ? ["goals", goal] : []),
+            "learnings",
+            learning.filename,
+          ),
+          timestamp: learning.timestamp,
+          content,
+        });
+      }
+    }
+
+    return searchDocuments(documents, query, options);
+  }
+
+  private getJournalPath(name: string): string {
+    return join(this.getGoalDir(name), "journal.json");
+  }
+
+  // Starts a work session on a goal. A session left open by an earlier
+  // conversation is closed first, without a summary.
+  async startSession(name: string): Promise<Session> {
+    if (!existsSync(this.getGoalDir(name))) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+
+    const startedAt = GoalManager.getCurrentTimestamp();
+    const sessions = await updateJsonFile<Session[]>(
+      this.getJournalPath(name),
+      () => [],
+      (sessions) => [
+        ...sessions.map((session) =>
+          session.ended_at ? session : { ...session, ended_at: startedAt },
+        ),
+        {
+          session: sessions.length + 1,
+          started_at: startedAt,
+          ended_at: null,
+          summary: null,
+          files_touched: [],
+          next_steps: [],
+        },
+      ],
+    );
+    await this.touchGoal(name);
+    return sessions[sessions.length - 1];
+  }
+
+  async endSession(name: string, end: SessionEnd): Promise<Session> {
+    if (!existsSync(this.getGoalDir(name))) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+
+    let ended: Session | null = null;
+    await updateJsonFile<Session[]>(
+      this.getJournalPath(name),
+      () => [],
+      (sessions) => {
+        const open = sessions.find((session) => !session.ended_at);
+        if (!open) {
+          throw new GoalsError(
+            "NO_OPEN_SESSION",
+            `Goal "${name}" has no open session. Call start-session first.`,
+          );
+        }
+
+        ended = {
+          ...open,
+          ended_at: GoalManager.getCurrentTimestamp(),
+          summary: end.summary,
+          files_touched: end.files_touched ?? [],
+          next_steps: end.next_steps ?? [],
+        };
+        return sessions.map((session) => (session === open ? ended! : session));
+      },
+    );
+    await this.touchGoal(name);
+    return ended!;
+  }
+
+  async listSessions(name: string): Promise<Session[]> {
+    if (!existsSync(this.getGoalDir(name))) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+    }
+
+    return readJsonFile<Session[]>(this.getJournalPath(name), () => []);
+  }
+
+  // The most recent session that was ended with a summary
+  async getLastSession(name: string): Promise<Session | null> {
+    const sessions = await this.listSessions(name);
+    return (
+      [...sessions].reverse().find((session) => session.summary !== null) ??
+      null
     );
-    return summaries;
   }
 
   async setActiveGoal(name: string): Promise<void> {
-    const goalDir = join(this.goalsDir, "goals", name);
-    if (!existsSync(goalDir)) {
-      throw new Error(`Goal "${name}" does not exist`);
+    if (!existsSync(this.getGoalDir(name))) {
+      throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
     }
 
-    this.state.active_goal = name;
-    this.state.last_updated = new Date().toISOString();
-    await this.saveState();
+    await this.updateState((state) => ({
+      ...state,
+      active_goal: name,
+      last_updated: new Date().toISOString(),
+    }));
+  }
+
+  // Makes getActiveGoal return name for this instance only. Servers use it
+  // to keep each client session's active goal, leaving the persisted one as
+  // the default for new sessions.
+  overrideActiveGoal(name: string | null): void {
+    this.activeGoalOverride = name;
   }
 
   getActiveGoal(): string | null {
-    return this.state.active_goal;
+    if (this.activeGoalOverride === undefined) {
+      return this.state.active_goal;
+    }
+    // The goal may have been archived, moved or deleted since
+    const name = this.activeGoalOverride;
+    return name && existsSync(this.getGoalDir(name)) ? name : null;
   }
 }
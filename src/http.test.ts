@@ -0,0 +1,80 @@
+import { Server } from "http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { CallToolResultSchema } from "@modelcontextprotocol/sdk/types";
+import { rm } from "fs/promises";
+import { join } from "path";
+import { homedir } from "os";
+import { getServerUrl, startHttpServer } from "./http";
+import { WorkspaceManager } from "./workspace";
+
+describe("HTTP transport", () => {
+  const TEST_DIR = join(homedir(), ".goals-test-http");
+  let httpServer: Server;
+  let url: URL;
+
+  beforeEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+    const workspaceManager = new WorkspaceManager(TEST_DIR);
+    await workspaceManager.init();
+    await workspaceManager.createWorkspace("first", join(TEST_DIR, "first"));
+    await workspaceManager.createWorkspace("second", join(TEST_DIR, "second"));
+
+    httpServer = await startHttpServer(workspaceManager, { port: 0 });
+    url = new URL(getServerUrl(httpServer));
+  });
+
+  afterEach(async () => {
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  async function connectClient(): Promise<Client> {
+    const client = new Client({ name: "test-client", version: "1.0" });
+    await client.connect(new SSEClientTransport(url));
+    return client;
+  }
+
+  function callTool(
+    client: Client,
+    name: string,
+    args: Record<string, unknown>,
+  ) {
+    return client.request(
+      { method: "tools/call", params: { name, arguments: args } },
+      CallToolResultSchema,
+    );
+  }
+
+  it("should keep an active workspace per connection", async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    await callTool(first, "init-workspace", { name: "first" });
+    await callTool(second, "init-workspace", { name: "second" });
+    await callTool(first, "create-goal", { name: "one", plan: "# One" });
+    await callTool(second, "create-goal", { name: "two", plan: "# Two" });
+
+    const firstGoals = await callTool(first, "list-goals", {});
+    const secondGoals = await callTool(second, "list-goals", {});
+    expect(firstGoals.content[0].text).toBe("- one [active]: One");
+    expect(secondGoals.content[0].text).toBe("- two [active]: Two");
+
+    await first.close();
+    await second.close();
+  });
+
+  it("should only listen on the loopback interface by default", () => {
+    expect(url.hostname).toBe("127.0.0.1");
+    expect(url.pathname).toBe("/sse");
+  });
+
+  it("should reject messages for unknown sessions", async () => {
+    const response = await fetch(new URL("/messages?sessionId=nope", url), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "http";
+import { AddressInfo } from "net";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { createServer } from "./server.js";
+import { WorkspaceManager } from "./workspace.js";
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string; // defaults to the loopback interface
+}
+
+export const DEFAULT_HTTP_PORT = 3000;
+// The server has no authentication, so it only accepts local connections
+// unless told otherwise
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+
+// Serves MCP over HTTP with server-sent events. Every connection gets its own
+// MCP server, so session state such as the active workspace is not shared
+// between clients.
+export async function startHttpServer(
+  workspaceManager: WorkspaceManager,
+  options: HttpServerOptions,
+): Promise<Server> {
+  const transports = new Map<string, SSEServerTransport>();
+
+  async function connect(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    transports.set(transport.sessionId, transport);
+    res.on("close", () => transports.delete(transport.sessionId));
+    await createServer(workspaceManager).connect(transport);
+  }
+
+  async function handleMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+  ): Promise<void> {
+    const transport = sessionId ? transports.get(sessionId) : undefined;
+    if (!transport) {
+      res.writeHead(404).end(`Session "${sessionId}" not found`);
+      return;
+    }
+    await transport.handlePostMessage(req, res);
+  }
+
+  const server = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (req.method === "GET" && url.pathname === SSE_PATH) {
+        await connect(res);
+      } else if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+        await handleMessage(req, res, url.searchParams.get("sessionId"));
+      } else {
+        res.writeHead(404).end("Not found");
+      }
+    } catch (error) {
+      console.error("Failed to handle request:", error);
+      if (!res.headersSent) {
+        res.writeHead(500).end(String(error));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host ?? DEFAULT_HTTP_HOST, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  return server;
+}
+
+// The URL clients connect to, for the address the server is bound to
+export function getServerUrl(server: Server): string {
+  const { address, family, port } = server.address() as AddressInfo;
+  const host = family === "IPv6" ? `[${address}]` : address;
+  return `http://${host}:${port}${SSE_PATH}`;
+}
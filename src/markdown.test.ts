@@ -0,0 +1,236 @@
+import {
+  describePlan,
+  findHeadings,
+  parsePlan,
+  parseProgress,
+  replaceSection,
+  setTaskDone,
+} from "./markdown";
+
+describe("markdown sections", () => {
+  const plan = `# Plan
+
+Summary.
+
+## [TODO] Phase 1: Setup
+
+Do setup.
+
+### Details
+Setup details.
+
+## Implementation Plan
+
+Old plan.
+
+\`\`\`md
+# Not a heading
+\`\`\`
+`;
+
+  it("should find headings outside code fences", () => {
+    const headings = findHeadings(plan.split("\n"));
+    expect(headings.map((h) => [h.level, h.text])).toEqual([
+      [1, "Plan"],
+      [2, "[TODO] Phase 1: Setup"],
+      [3, "Details"],
+      [2, "Implementation Plan"],
+    ]);
+  });
+
+  it("should replace a section body including subsections", () => {
+    const updated = replaceSection(plan, "## [TODO] Phase 1: Setup", {
+      content: "New setup.",
+    });
+    expect(updated).toContain(
+      "## [TODO] Phase 1: Setup\n\nNew setup.\n\n## Implementation Plan",
+    );
+    expect(updated).not.toContain("Setup details.");
+  });
+
+  it("should replace the last section and keep the trailing newline", () => {
+    const updated = replaceSection(plan, "Implementation Plan", {
+      content: "New plan.",
+    });
+    expect(updated.endsWith("## Implementation Plan\n\nNew plan.\n")).toBe(
+      true,
+    );
+  });
+
+  it("should rename a heading matched without its status tag", () => {
+    const updated = replaceSection(plan, "Phase 1: Setup", {
+      heading: "## [COMPLETE] Phase 1: Setup",
+    });
+    expect(updated).toContain("## [COMPLETE] Phase 1: Setup\n\nDo setup.");
+    expect(updated).not.toContain("[TODO]");
+  });
+
+  it("should preserve CRLF line endings", () => {
+    const crlf = plan.replace(/\n/g, "\r\n");
+    const updated = replaceSection(crlf, "Details", { content: "Changed." });
+    expect(updated).toContain(
+      "### Details\r\n\r\nChanged.\r\n\r\n## Implementation Plan",
+    );
+  });
+
+  it("should reject unknown and ambiguous sections", () => {
+    expect(() => replaceSection(plan, "Missing", { content: "" })).toThrow(
+      'Section "Missing" not found in plan',
+    );
+    expect(() =>
+      replaceSection("## A\n\n## A\n", "A", { content: "" }),
+    ).toThrow("ambiguous");
+  });
+});
+
+describe("plan progress", () => {
+  const plan = `# Plan
+
+- [x] Loose task
+
+## [COMPLETE] Phase 1: Bootstrap
+
+Set up the repository.
+
+## [TODO] Phase 2: Persistence
+
+- [x] Write state
+- [ ] Read state
+* [ ] Handle errors
+
+## [TODO] Phase 3: Polish
+`;
+
+  it("should parse phases and tasks", () => {
+    const progress = parseProgress(plan);
+
+    expect(
+      progress.phases.map((p) => [p.status, p.title, p.percent_complete]),
+    ).toEqual([
+      ["COMPLETE", "Phase 1: Bootstrap", 100],
+      ["TODO", "Phase 2: Persistence", 33],
+      ["TODO", "Phase 3: Polish", 0],
+    ]);
+    expect(progress.tasks.map((t) => [t.text, t.done, t.phase])).toEqual([
+      ["Loose task", true, null],
+      ["Write state", true, "Phase 2: Persistence"],
+      ["Read state", false, "Phase 2: Persistence"],
+      ["Handle errors", false, "Phase 2: Persistence"],
+    ]);
+    expect(progress.completed_tasks).toBe(2);
+    expect(progress.total_tasks).toBe(4);
+    expect(progress.percent_complete).toBe(44);
+  });
+
+  it("should check off tasks by text or number", () => {
+    const byText = setTaskDone(plan, "read state", true);
+    expect(byText.markdown).toContain("- [x] Read state");
+    expect(byText.task.done).toBe(true);
+
+    const byNumber = setTaskDone(plan, "2", false);
+    expect(byNumber.markdown).toContain("- [ ] Write state");
+
+    const byPart = setTaskDone(plan, "errors", true);
+    expect(byPart.markdown).toContain("* [x] Handle errors");
+  });
+
+  it("should reject unknown and ambiguous tasks", () => {
+    expect(() => setTaskDone(plan, "Deploy", true)).toThrow(
+      'Task "Deploy" not found in plan',
+    );
+    expect(() => setTaskDone(plan, "state", true)).toThrow("ambiguous");
+    expect(() => setTaskDone(plan, "9", true)).toThrow("Task 9 not found");
+  });
+});
+
+describe("plan parsing", () => {
+  it("should parse the title, summary, sections and tasks", () => {
+    const plan = parsePlan(`# Goal Title
+
+First line of the summary
+continues here.
+
+## [TODO] Phase 1: Start
+
+- [ ] Begin
+
+### Notes
+
+Details.
+
+## Background
+
+Context.
+`);
+
+    expect(plan.title).toBe("Goal Title");
+    expect(plan.summary).toBe("First line of the summary\ncontinues here.");
+    expect(plan.sections.map((s) => [s.level, s.heading])).toEqual([
+      [1, "Goal Title"],
+      [2, "[TODO] Phase 1: Start"],
+      [3, "Notes"],
+      [2, "Background"],
+    ]);
+    expect(plan.sections[1].content).toBe(
+      "- [ ] Begin\n\n### Notes\n\nDetails.",
+    );
+    expect(plan.phases.map((p) => p.title)).toEqual(["Phase 1: Start"]);
+    expect(plan.tasks.map((t) => t.text)).toEqual(["Begin"]);
+    expect(plan.front_matter).toEqual({});
+  });
+
+  it("should read front matter without treating it as content", () => {
+    const plan = parsePlan(`---
+owner: alice
+priority: "high"
+# comment
+tags: [api, backend]
+reviewers:
+  - bob
+  - 'carol'
+---
+# With Front Matter
+
+Summary.
+
+- [ ] Task
+`);
+
+    expect(plan.front_matter).toEqual({
+      owner: "alice",
+      priority: "high",
+      tags: ["api", "backend"],
+      reviewers: ["bob", "carol"],
+    });
+    expect(plan.title).toBe("With Front Matter");
+    expect(plan.summary).toBe("Summary.");
+    expect(plan.sections).toHaveLength(1);
+    expect(plan.tasks[0].line).toBe(13);
+  });
+
+  it("should handle CRLF, missing blank lines and leading comments", () => {
+    expect(
+      describePlan(parsePlan("# Title\r\nSummary line.\r\n\r\n## Next\r\n")),
+    ).toBe("Title\n\nSummary line.");
+    expect(
+      describePlan(
+        parsePlan(
+          "<!-- generated\n# not a title\n-->\n# Real Title\n<!-- note -->\n\nSummary.",
+        ),
+      ),
+    ).toBe("Real Title\n\nSummary.");
+    expect(describePlan(parsePlan("# Only Title\n\n## Section\n\nText."))).toBe(
+      "Only Title",
+    );
+    expect(describePlan(parsePlan("Just text.\n\n## Section"))).toBe(
+      "Just text.",
+    );
+    expect(describePlan(parsePlan(""))).toBeNull();
+  });
+
+  it("should treat an unclosed front matter delimiter as content", () => {
+    const plan = parsePlan("---\n# Title\n\nSummary.");
+    expect(plan.front_matter).toEqual({});
+    expect(plan.title).toBe("Title");
+  });
+});
@@ -0,0 +1,431 @@
+import { GoalsError } from "./errors.js";
+
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+  line: number; // zero-based line index of the heading
+}
+
+export interface SectionUpdate {
+  heading?: string; // replacement heading line, e.g. "## [COMPLETE] Phase 3"
+  content?: string; // replacement body, excluding the heading line
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const STATUS_TAG_PATTERN = /^\[[^\]]*\]\s*/;
+
+const FRONT_MATTER_DELIMITER = /^---\s*$/;
+const FRONT_MATTER_END = /^(---|\.\.\.)\s*$/;
+const COMMENT_START = "<!--";
+const COMMENT_END = "-->";
+
+export function detectLineEnding(markdown: string): string {
+  return markdown.includes("\r\n") ? "\r\n" : "\n";
+}
+
+// Index of the first line after a leading "---" front matter block, or 0
+function findFrontMatterEnd(lines: string[]): number {
+  if (
+    lines.length === 0 ||
+    !FRONT_MATTER_DELIMITER.test(lines[0].replace(/^\uFEFF/, ""))
+  ) {
+    return 0;
+  }
+  const end = lines.findIndex(
+    (line, i) => i > 0 && FRONT_MATTER_END.test(line),
+  );
+  return end === -1 ? 0 : end + 1;
+}
+
+// Marks the lines holding markdown text, as opposed to front matter, fenced
+// code or HTML comments, whose contents are not headings or tasks.
+function findContentLines(lines: string[]): boolean[] {
+  const content = lines.map(() => true);
+  const frontMatterEnd = findFrontMatterEnd(lines);
+  let inFence = false;
+  let inComment = false;
+
+  lines.forEach((line, index) => {
+    if (index < frontMatterEnd) {
+      content[index] = false;
+    } else if (inComment) {
+      content[index] = false;
+      inComment = !line.includes(COMMENT_END);
+    } else if (FENCE_PATTERN.test(line)) {
+      content[index] = false;
+      inFence = !inFence;
+    } else if (inFence) {
+      content[index] = false;
+    } else if (line.trimStart().startsWith(COMMENT_START)) {
+      content[index] = false;
+      inComment = !line.includes(COMMENT_END, line.indexOf(COMMENT_START) + 4);
+    }
+  });
+
+  return content;
+}
+
+export function findHeadings(lines: string[]): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  const content = findContentLines(lines);
+
+  lines.forEach((line, index) => {
+    if (!content[index]) return;
+
+    const match = line.match(HEADING_PATTERN);
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2], line: index });
+    }
+  });
+
+  return headings;
+}
+
+function parseHeadingQuery(query: string): {
+  level: number | null;
+  text: string;
+} {
+  const match = query.trim().match(HEADING_PATTERN);
+  if (match) {
+    return { level: match[1].length, text: match[2] };
+  }
+  return { level: null, text: query.trim() };
+}
+
+function findSectionHeading(
+  headings: MarkdownHeading[],
+  query: string,
+): MarkdownHeading {
+  const { level, text } = parseHeadingQuery(query);
+  const candidates = headings.filter(
+    (h) => level === null || h.level === level,
+  );
+
+  // Prefer exact matches, then fall back to ignoring status tags such as
+  // "[TODO]" so that "Phase 3: Goal Persistence" finds "[TODO] Phase 3: ...".
+  let matches = candidates.filter((h) => h.text === text);
+  if (matches.length === 0) {
+    const stripped = text.replace(STATUS_TAG_PATTERN, "");
+    matches = candidates.filter(
+      (h) => h.text.replace(STATUS_TAG_PATTERN, "") === stripped,
+    );
+  }
+
+  if (matches.length === 0) {
+    throw new GoalsError(
+      "SECTION_NOT_FOUND",
+      `Section "${query}" not found in plan`,
+    );
+  }
+  if (matches.length > 1) {
+    throw new GoalsError(
+      "AMBIGUOUS_MATCH",
+      `Section "${query}" is ambiguous; it matches ${matches.length} headings`,
+    );
+  }
+  return matches[0];
+}
+
+export function replaceSection(
+  markdown: string,
+  query: string,
+  update: SectionUpdate,
+): string {
+  const eol = detectLineEnding(markdown);
+  const lines = markdown.split(/\r?\n/);
+  const headings = findHeadings(lines);
+  const heading = findSectionHeading(headings, query);
+
+  const next = headings.find(
+    (h) => h.line > heading.line && h.level <= heading.level,
+  );
+  const end = next ? next.line : lines.length;
+
+  const headingLine = update.heading?.trim() ?? lines[heading.line];
+  let body = lines.slice(heading.line + 1, end);
+  if (update.content !== undefined) {
+    const content = update.content.trim();
+    body = content ? ["", ...content.split(/\r?\n/)] : [];
+    if (next || lines[lines.length - 1] === "") body.push("");
+  }
+
+  return [
+    ...lines.slice(0, heading.line),
+    headingLine,
+    ...body,
+    ...lines.slice(end),
+  ].join(eol);
+}
+
+export interface PlanTask {
+  text: string;
+  done: boolean;
+  line: number; // zero-based line index of the checkbox
+  phase: string | null; // title of the enclosing phase, if any
+}
+
+export interface PlanPhase {
+  title: string;
+  status: string; // the tag from the heading, e.g. "TODO" or "COMPLETE"
+  complete: boolean;
+  tasks: PlanTask[];
+  percent_complete: number;
+}
+
+export interface PlanProgress {
+  phases: PlanPhase[];
+  tasks: PlanTask[];
+  completed_tasks: number;
+  total_tasks: number;
+  percent_complete: number;
+}
+
+const PHASE_PATTERN = /^\[([^\]]+)\]\s+(.+)$/;
+const TASK_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\]\s+)(.*)$/;
+const COMPLETE_PHASE_STATUSES = ["COMPLETE", "COMPLETED", "DONE"];
+
+function percent(done: number, total: number): number {
+  return total === 0 ? 0 : Math.round((done / total) * 100);
+}
+
+export type FrontMatterValue = string | string[];
+
+export interface PlanSection {
+  level: number;
+  heading: string;
+  line: number; // zero-based line index of the heading
+  content: string; // body up to the next heading of the same or higher level
+}
+
+export interface PlanDocument {
+  front_matter: Record<string, FrontMatterValue>;
+  title: string | null; // the first level-1 heading
+  summary: string | null; // the first paragraph under the title
+  sections: PlanSection[];
+  phases: PlanPhase[];
+  tasks: PlanTask[];
+}
+
+function unquote(value: string): string {
+  const match = value.match(/^(["'])(.*)\1$/);
+  return match ? match[2] : value;
+}
+
+// Reads the subset of YAML used in plan front matter: "key: value" pairs,
+// where a value may be a flow list ("[a, b]") or a block of "- item" lines.
+export function parseFrontMatter(
+  lines: string[],
+): Record<string, FrontMatterValue> {
+  const values: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of lines) {
+    if (!line.trim() || line.trimStart().startsWith("#")) continue;
+
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (values[listKey] as string[]).push(unquote(item[1].trim()));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.*)$/);
+    if (!pair) continue;
+
+    const [, key, raw] = pair;
+    const value = raw.replace(/\s+#.*$/, "").trim();
+    listKey = null;
+    if (value === "") {
+      values[key] = [];
+      listKey = key;
+    } else if (value.startsWith("[") && value.endsWith("]")) {
+      values[key] = value
+        .slice(1, -1)
+        .split(",")
+        .map((entry) => unquote(entry.trim()))
+        .filter(Boolean);
+    } else {
+      values[key] = unquote(value);
+    }
+  }
+  return values;
+}
+
+// The first paragraph at or after start, stopping at the next heading
+function findParagraph(
+  lines: string[],
+  content: boolean[],
+  start: number,
+): string | null {
+  const paragraph: string[] = [];
+  for (let i = start; i < lines.length; i++) {
+    if (!content[i] || !lines[i].trim()) {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    if (HEADING_PATTERN.test(lines[i])) break;
+    paragraph.push(lines[i].trim());
+  }
+  return paragraph.length > 0 ? paragraph.join("\n") : null;
+}
+
+export function parsePlan(markdown: string): PlanDocument {
+  const lines = markdown.split(/\r?\n/);
+  const content = findContentLines(lines);
+  const frontMatterEnd = findFrontMatterEnd(lines);
+  const headings = findHeadings(lines);
+
+  const titleHeading = headings.find((h) => h.level === 1) ?? null;
+  // Without a title, only text before the first heading is a summary
+  const summary = findParagraph(
+    lines,
+    content,
+    titleHeading ? titleHeading.line + 1 : frontMatterEnd,
+  );
+
+  const sections: PlanSection[] = headings.map((heading) => {
+    const next = headings.find(
+      (h) => h.line > heading.line && h.level <= heading.level,
+    );
+    return {
+      level: heading.level,
+      heading: heading.text,
+      line: heading.line,
+      content: lines
+        .slice(heading.line + 1, next ? next.line : lines.length)
+        .join("\n")
+        .trim(),
+    };
+  });
+
+  const phaseHeadings = headings.filter((h) => PHASE_PATTERN.test(h.text));
+  const phases: PlanPhase[] = phaseHeadings.map((heading) => {
+    const [, status, title] = heading.text.match(PHASE_PATTERN)!;
+    return {
+      title,
+      status: status.trim().toUpperCase(),
+      complete: COMPLETE_PHASE_STATUSES.includes(status.trim().toUpperCase()),
+      tasks: [],
+      percent_complete: 0,
+    };
+  });
+
+  const tasks: PlanTask[] = [];
+  lines.forEach((line, index) => {
+    if (!content[index]) return;
+
+    const match = line.match(TASK_PATTERN);
+    if (!match) return;
+
+    let phaseIndex = -1;
+    phaseHeadings.forEach((heading, i) => {
+      if (heading.line < index) phaseIndex = i;
+    });
+    const phase = phaseIndex >= 0 ? phases[phaseIndex] : null;
+
+    const task: PlanTask = {
+      text: match[4].trim(),
+      done: match[2] !== " ",
+      line: index,
+      phase: phase ? phase.title : null,
+    };
+    tasks.push(task);
+    phase?.tasks.push(task);
+  });
+
+  for (const phase of phases) {
+    // Phases without checkboxes are all-or-nothing based on their status tag
+    phase.percent_complete =
+      phase.tasks.length > 0
+        ? percent(phase.tasks.filter((t) => t.done).length, phase.tasks.length)
+        : phase.complete
+          ? 100
+          : 0;
+  }
+
+  return {
+    front_matter: parseFrontMatter(
+      lines.slice(1, Math.max(frontMatterEnd - 1, 1)),
+    ),
+    title: titleHeading?.text ?? null,
+    summary,
+    sections,
+    phases,
+    tasks,
+  };
+}
+
+// The title and summary of a plan, as shown in goal listings
+export function describePlan(plan: PlanDocument): string | null {
+  const parts = [plan.title, plan.summary].filter(
+    (part): part is string => part !== null,
+  );
+  return parts.length > 0 ? parts.join("\n\n") : null;
+}
+
+export function parseProgress(markdown: string): PlanProgress {
+  const { phases, tasks } = parsePlan(markdown);
+  const completedTasks = tasks.filter((t) => t.done).length;
+  return {
+    phases,
+    tasks,
+    completed_tasks: completedTasks,
+    total_tasks: tasks.length,
+    percent_complete:
+      phases.length > 0
+        ? Math.round(
+            phases.reduce((sum, p) => sum + p.percent_complete, 0) /
+              phases.length,
+          )
+        : percent(completedTasks, tasks.length),
+  };
+}
+
+function findTask(tasks: PlanTask[], query: string): PlanTask {
+  // Tasks can be referenced by their 1-based position in the plan
+  if (/^\d+$/.test(query.trim())) {
+    const task = tasks[parseInt(query, 10) - 1];
+    if (!task) {
+      throw new GoalsError(
+        "TASK_NOT_FOUND",
+        `Task ${query} not found; the plan has ${tasks.length} tasks`,
+      );
+    }
+    return task;
+  }
+
+  const normalized = query.trim().toLowerCase();
+  let matches = tasks.filter((t) => t.text.toLowerCase() === normalized);
+  if (matches.length === 0) {
+    matches = tasks.filter((t) => t.text.toLowerCase().includes(normalized));
+  }
+
+  if (matches.length === 0) {
+    throw new GoalsError("TASK_NOT_FOUND", `Task "${query}" not found in plan`);
+  }
+  if (matches.length > 1) {
+    throw new GoalsError(
+      "AMBIGUOUS_MATCH",
+      `Task "${query}" is ambiguous; it matches ${matches.length} tasks`,
+    );
+  }
+  return matches[0];
+}
+
+export function setTaskDone(
+  markdown: string,
+  query: string,
+  done: boolean,
+): { markdown: string; task: PlanTask } {
+  const eol = detectLineEnding(markdown);
+  const lines = markdown.split(/\r?\n/);
+  const task = findTask(parseProgress(markdown).tasks, query);
+
+  lines[task.line] = lines[task.line].replace(
+    TASK_PATTERN,
+    (_, prefix, _mark, suffix, text) =>
+      `${prefix}${done ? "x" : " "}${suffix}${text}`,
+  );
+
+  return { markdown: lines.join(eol), task: { ...task, done } };
+}
@@ -0,0 +1,35 @@
+import {
+  assertSafeGoalName,
+  slugify,
+  toGoalName,
+  validateGoalName,
+} from "./names";
+
+describe("goal names", () => {
+  it("should turn titles into slugs", () => {
+    expect(slugify("Fix Login Bug!")).toBe("fix-login-bug");
+    expect(slugify("  Café -- crème brûlée ")).toBe("cafe-creme-brulee");
+    expect(slugify("x".repeat(80))).toHaveLength(64);
+    expect(toGoalName("already-a-slug")).toBe("already-a-slug");
+    expect(() => toGoalName("!!!")).toThrow("at least one letter or digit");
+  });
+
+  it("should only accept unreserved slugs for new goals", () => {
+    expect(() => validateGoalName("fix-login-bug")).not.toThrow();
+    expect(() => validateGoalName("Fix-Login")).toThrow("lowercase letters");
+    expect(() => validateGoalName("double--hyphen")).toThrow(
+      "lowercase letters",
+    );
+    expect(() => validateGoalName("search")).toThrow("it is reserved");
+    expect(() => validateGoalName("a".repeat(65))).toThrow(
+      "at most 64 characters",
+    );
+  });
+
+  it("should keep existing names inside the goals directory", () => {
+    expect(() => assertSafeGoalName("Legacy_Goal")).not.toThrow();
+    for (const name of ["", "..", "../etc", "a/b", "a\\b", ".git", "a\0b"]) {
+      expect(() => assertSafeGoalName(name)).toThrow("Invalid goal name");
+    }
+  });
+});
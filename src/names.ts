@@ -0,0 +1,114 @@
+import { basename } from "path";
+import { GoalsError } from "./errors.js";
+
+export const MAX_GOAL_NAME_LENGTH = 64;
+
+// Names that would clash with the goals:// resources
+export const RESERVED_GOAL_NAMES = ["active", "learnings", "list", "search"];
+
+const GOAL_NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const LEARNING_FILENAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*\.md$/;
+
+export class InvalidNameError extends GoalsError {
+  constructor(
+    readonly kind: "goal" | "learning" | "workspace",
+    readonly value: string,
+    readonly reason: string,
+  ) {
+    super("INVALID_NAME", `Invalid ${kind} name "${value}": ${reason}`);
+    this.name = "InvalidNameError";
+  }
+}
+
+// Turns a human-readable title into a goal name, e.g. "Fix Login Bug!" into
+// "fix-login-bug"
+export function slugify(title: string): string {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, MAX_GOAL_NAME_LENGTH)
+    .replace(/^-+|-+$/g, "");
+}
+
+// Names of new goals are used as given if they are already slugs, and
+// derived from them otherwise
+export function toGoalName(nameOrTitle: string): string {
+  if (GOAL_NAME_PATTERN.test(nameOrTitle)) {
+    return nameOrTitle;
+  }
+  const name = slugify(nameOrTitle);
+  if (!name) {
+    throw new InvalidNameError(
+      "goal",
+      nameOrTitle,
+      "it must contain at least one letter or digit",
+    );
+  }
+  return name;
+}
+
+// Names used to look up goals must stay inside the goals directory. Goals
+// created before names were validated may not follow the slug rules, so
+// this is all that is checked when reading.
+export function assertSafeGoalName(name: string): void {
+  if (!name) {
+    throw new InvalidNameError("goal", name, "it must not be empty");
+  }
+  if (
+    name !== basename(name) ||
+    name.includes("\\") ||
+    name.includes("\0") ||
+    name.startsWith(".")
+  ) {
+    throw new InvalidNameError(
+      "goal",
+      name,
+      "it must not contain path separators or start with a dot",
+    );
+  }
+}
+
+// Names of new goals must be lowercase slugs that are not reserved
+export function validateGoalName(name: string): void {
+  assertSafeGoalName(name);
+  if (name.length > MAX_GOAL_NAME_LENGTH) {
+    throw new InvalidNameError(
+      "goal",
+      name,
+      `it must be at most ${MAX_GOAL_NAME_LENGTH} characters long`,
+    );
+  }
+  if (!GOAL_NAME_PATTERN.test(name)) {
+    throw new InvalidNameError(
+      "goal",
+      name,
+      'it may only contain lowercase letters, digits and single hyphens, e.g. "fix-login-bug"',
+    );
+  }
+  if (RESERVED_GOAL_NAMES.includes(name)) {
+    throw new InvalidNameError("goal", name, "it is reserved");
+  }
+}
+
+// Goals in other workspaces are referenced as "workspace:goal", split at the
+// first colon, so workspace names cannot contain one
+export function validateWorkspaceName(name: string): void {
+  if (!name) {
+    throw new InvalidNameError("workspace", name, "it must not be empty");
+  }
+  if (name.includes(":")) {
+    throw new InvalidNameError("workspace", name, 'it must not contain ":"');
+  }
+}
+
+export function assertSafeLearningFilename(filename: string): void {
+  if (!LEARNING_FILENAME_PATTERN.test(filename)) {
+    throw new InvalidNameError(
+      "learning",
+      filename,
+      "it must be a markdown file name without a path",
+    );
+  }
+}
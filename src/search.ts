@@ -0,0 +1,175 @@
+import { findHeadings } from "./markdown.js";
+import { GoalsError } from "./errors.js";
+
+export interface SearchDocument {
+  goal: string | null; // null for workspace-level learnings
+  kind: "plan" | "learning";
+  path: string; // relative to the workspace root
+  timestamp: string; // when the document was written or last updated
+  content: string;
+}
+
+export interface SearchOptions {
+  goal?: string;
+  since?: string; // ISO 8601 date or timestamp, inclusive
+  until?: string; // ISO 8601 date or timestamp, inclusive
+  section?: string; // only match within headings containing this text
+  limit?: number;
+}
+
+export interface SearchResult {
+  goal: string | null;
+  kind: "plan" | "learning";
+  path: string;
+  line: number; // 1-based line of the snippet
+  section: string | null;
+  snippet: string;
+  score: number;
+}
+
+const DEFAULT_LIMIT = 20;
+const SNIPPET_LENGTH = 200;
+
+interface Chunk {
+  heading: string | null;
+  start: number; // zero-based index of the first line
+  lines: string[];
+}
+
+function splitChunks(content: string): Chunk[] {
+  const lines = content.split(/\r?\n/);
+  const headings = findHeadings(lines);
+  const chunks: Chunk[] = [];
+
+  // Text before the first heading forms its own untitled chunk
+  const firstHeading = headings.length > 0 ? headings[0].line : lines.length;
+  if (firstHeading > 0) {
+    chunks.push({
+      heading: null,
+      start: 0,
+      lines: lines.slice(0, firstHeading),
+    });
+  }
+
+  headings.forEach((heading, i) => {
+    const end = i + 1 < headings.length ? headings[i + 1].line : lines.length;
+    chunks.push({
+      heading: heading.text,
+      start: heading.line,
+      lines: lines.slice(heading.line, end),
+    });
+  });
+
+  return chunks;
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+function makeSnippet(line: string, terms: string[]): string {
+  const text = line.trim();
+  if (text.length <= SNIPPET_LENGTH) return text;
+
+  const lower = text.toLowerCase();
+  const first = Math.min(
+    ...terms.map((t) => lower.indexOf(t)).filter((i) => i !== -1),
+  );
+  const start = Math.max(0, first - SNIPPET_LENGTH / 4);
+  const snippet = text.slice(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? "…" : ""}${snippet}${start + SNIPPET_LENGTH < text.length ? "…" : ""}`;
+}
+
+function parseDateOption(name: "since" | "until", value: string): number {
+  // A bare until date includes the whole day
+  const time = new Date(
+    name === "until" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? `${value}T23:59:59.999Z`
+      : value,
+  ).getTime();
+  if (Number.isNaN(time)) {
+    throw new GoalsError(
+      "INVALID_ARGUMENTS",
+      `Invalid ${name} date "${value}": expected an ISO date like 2025-03-31`,
+    );
+  }
+  return time;
+}
+
+function inDateRange(
+  timestamp: string,
+  since: number | null,
+  until: number | null,
+): boolean {
+  const time = new Date(timestamp).getTime();
+  return (since === null || time >= since) && (until === null || time <= until);
+}
+
+export function searchDocuments(
+  documents: SearchDocument[],
+  query: string,
+  options: SearchOptions = {},
+): SearchResult[] {
+  const phrase = query.trim().toLowerCase();
+  const terms = phrase.split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const since = options.since ? parseDateOption("since", options.since) : null;
+  const until = options.until ? parseDateOption("until", options.until) : null;
+  const section = options.section?.toLowerCase();
+  const results: SearchResult[] = [];
+
+  for (const document of documents) {
+    if (options.goal !== undefined && document.goal !== options.goal) continue;
+    if (!inDateRange(document.timestamp, since, until)) continue;
+
+    for (const chunk of splitChunks(document.content)) {
+      if (section && !chunk.heading?.toLowerCase().includes(section)) continue;
+
+      const text = chunk.lines.join("\n").toLowerCase();
+      if (!terms.every((term) => text.includes(term))) continue;
+
+      const heading = chunk.heading?.toLowerCase() ?? "";
+      let score = terms.reduce(
+        (sum, term) => sum + countOccurrences(text, term),
+        0,
+      );
+      if (terms.length > 1 && text.includes(phrase)) score += 5;
+      score += 2 * terms.filter((term) => heading.includes(term)).length;
+
+      // Prefer the line containing the whole phrase, then the most terms
+      let best = 0;
+      let bestScore = -1;
+      chunk.lines.forEach((line, i) => {
+        const lower = line.toLowerCase();
+        const lineScore =
+          (lower.includes(phrase) ? terms.length : 0) +
+          terms.filter((term) => lower.includes(term)).length;
+        if (lineScore > bestScore) {
+          best = i;
+          bestScore = lineScore;
+        }
+      });
+
+      results.push({
+        goal: document.goal,
+        kind: document.kind,
+        path: document.path,
+        line: chunk.start + best + 1,
+        section: chunk.heading,
+        snippet: makeSnippet(chunk.lines[best], terms),
+        score,
+      });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
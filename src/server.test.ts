@@ -3,16 +3,55 @@ import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import {
   CallToolResultSchema,
+  ErrorCode,
+  GetPromptResultSchema,
+  ListPromptsResultSchema,
+  ListResourcesResultSchema,
+  ListRootsRequestSchema,
   ReadResourceResultSchema,
 } from "@modelcontextprotocol/sdk/types";
-import { rm, writeFile } from "fs/promises";
+import { mkdir, rename, rm, writeFile } from "fs/promises";
 import { join } from "path";
+import { pathToFileURL } from "url";
 import { homedir } from "os";
 import { WorkspaceManager } from "./workspace";
 import { GoalManager } from "./goals";
 
 const TEST_DIR = join(homedir(), ".goals-TEST");
 
+async function connectTestClient(workspaceManager: WorkspaceManager) {
+  const server = createServer(workspaceManager);
+  const client = new Client(
+    { name: "test-client", version: "1.0" },
+    { capabilities: { tools: {}, resources: {} } },
+  );
+
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    client.connect(clientTransport),
+    server.connect(serverTransport),
+  ]);
+
+  return {
+    client,
+    close: async () => {
+      await client.close();
+      await server.close();
+    },
+  };
+}
+
+function callTool(client: Client, name: string, args: Record<string, unknown>) {
+  return client.request(
+    {
+      method: "tools/call",
+      params: { name, arguments: args },
+    },
+    CallToolResultSchema,
+  );
+}
+
 describe("Goals MCP Server", () => {
   beforeEach(async () => {
     try {
@@ -125,7 +164,7 @@ describe("Goals MCP Server", () => {
           name: "create-workspace",
           arguments: {
             name: "persistent-workspace",
-            path: "/persistent/path",
+            path: join(TEST_DIR, "persistent"),
           },
         },
       },
@@ -163,7 +202,7 @@ describe("Goals MCP Server", () => {
     );
 
     expect(listResult.contents[0].text).toContain(
-      "persistent-workspace: /persistent/path",
+      `persistent-workspace: ${join(TEST_DIR, "persistent")}`,
     );
 
     await client2.close();
@@ -329,3 +368,1312 @@ it("should handle workspace initialization with no goals", async () => {
   await client.close();
   await server.close();
 });
+
+it("should record learnings for the workspace and for goals", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  const workspacePath = join(TEST_DIR, "learning-workspace");
+  await callTool(client, "create-workspace", {
+    name: "learning-workspace",
+    path: workspacePath,
+  });
+  await callTool(client, "init-workspace", { name: "learning-workspace" });
+  await callTool(client, "create-goal", {
+    name: "test-goal",
+    plan: "# Test Goal\n\nDescription.",
+  });
+
+  const learning = {
+    title: "Prefer small commits",
+    context: "Reviewing a large change",
+    details: "Split work into one commit per request",
+    rationale: "Easier review",
+  };
+
+  const goalResult = await callTool(client, "create-learning", {
+    ...learning,
+    goal: "test-goal",
+  });
+  expect(goalResult.content[0].text).toContain(
+    'Learning "Prefer small commits" recorded for goal "test-goal"',
+  );
+
+  const workspaceResult = await callTool(client, "create-learning", learning);
+  expect(workspaceResult.content[0].text).toContain("for the workspace");
+
+  const goalManager = new GoalManager(workspacePath);
+  await goalManager.init();
+  expect(await goalManager.listLearnings("test-goal")).toHaveLength(1);
+  expect(await goalManager.listLearnings()).toHaveLength(1);
+
+  const missingGoal = await callTool(client, "create-learning", {
+    ...learning,
+    goal: "missing",
+  });
+  expect(missingGoal.isError).toBe(true);
+
+  await close();
+});
+
+it("should expose goals as resources in the active workspace", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  const readResource = (uri: string) =>
+    client.request(
+      { method: "resources/read", params: { uri } },
+      ReadResourceResultSchema,
+    );
+
+  await callTool(client, "create-workspace", {
+    name: "resource-workspace",
+    path: join(TEST_DIR, "resource-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "resource-workspace" });
+
+  const plan = "# Test Goal\n\nThis is a test goal description.";
+  await callTool(client, "create-goal", { name: "test-goal", plan });
+  await callTool(client, "set-active-goal", { name: "test-goal" });
+  await callTool(client, "create-learning", {
+    title: "A learning",
+    context: "",
+    details: "",
+    rationale: "",
+    goal: "test-goal",
+  });
+
+  const list = await readResource("goals://list");
+  expect(JSON.parse(list.contents[0].text as string)).toEqual([
+    {
+      name: "test-goal",
+      description: "Test Goal\n\nThis is a test goal description.",
+      status: "active",
+      owner: null,
+      priority: null,
+      tags: [],
+      due: null,
+      overdue: false,
+      active: true,
+    },
+  ]);
+
+  const goal = await readResource("goals://test-goal");
+  expect(JSON.parse(goal.contents[0].text as string)).toMatchObject({
+    name: "test-goal",
+    active: true,
+    learnings: 1,
+  });
+
+  const planResult = await readResource("goals://test-goal/plan");
+  expect(planResult.contents[0].text).toBe(plan);
+
+  const learnings = await readResource("goals://test-goal/learnings");
+  expect(JSON.parse(learnings.contents[0].text as string)).toEqual([
+    expect.objectContaining({ title: "A learning", goal: "test-goal" }),
+  ]);
+
+  await expect(readResource("goals://missing/plan")).rejects.toThrow(
+    'Goal "missing" does not exist',
+  );
+
+  // Goals in other workspaces need the colon percent-encoded
+  await callTool(client, "create-workspace", {
+    name: "resource-other",
+    path: join(TEST_DIR, "resource-other"),
+  });
+  await callTool(client, "create-goal", {
+    name: "other-goal",
+    plan: "# Other",
+    workspace: "resource-other",
+  });
+  const otherGoal = await readResource("goals://resource-other%3Aother-goal");
+  expect(JSON.parse(otherGoal.contents[0].text as string)).toMatchObject({
+    name: "other-goal",
+  });
+  const otherPlan = await readResource(
+    "goals://resource-other%3Aother-goal/plan",
+  );
+  expect(otherPlan.contents[0].text).toBe("# Other");
+
+  const resources = await client.request(
+    { method: "resources/list" },
+    ListResourcesResultSchema,
+  );
+  const uris = resources.resources.map((r) => r.uri);
+  expect(uris).toEqual(
+    expect.arrayContaining([
+      "workspaces://list",
+      "goals://list",
+      "goals://test-goal",
+      "goals://test-goal/plan",
+      "goals://test-goal/learnings",
+    ]),
+  );
+
+  await close();
+});
+
+it("should update goal plans in full or by section", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  const workspacePath = join(TEST_DIR, "plan-workspace");
+  await callTool(client, "create-workspace", {
+    name: "plan-workspace",
+    path: workspacePath,
+  });
+  await callTool(client, "init-workspace", { name: "plan-workspace" });
+  await callTool(client, "create-goal", {
+    name: "test-goal",
+    plan: "# Test Goal\n\nDescription.\n\n## [TODO] Phase 1\n\nWork.\n",
+  });
+
+  const goalManager = new GoalManager(workspacePath);
+
+  await callTool(client, "update-goal-plan", {
+    name: "test-goal",
+    section: "Phase 1",
+    heading: "## [COMPLETE] Phase 1",
+    content: "Done.",
+  });
+  expect(await goalManager.getPlan("test-goal")).toBe(
+    "# Test Goal\n\nDescription.\n\n## [COMPLETE] Phase 1\n\nDone.\n",
+  );
+
+  await callTool(client, "update-goal-plan", {
+    name: "test-goal",
+    plan: "# Replaced\n\nNew description.",
+  });
+  expect(await goalManager.getPlan("test-goal")).toBe(
+    "# Replaced\n\nNew description.",
+  );
+
+  const invalid = await callTool(client, "update-goal-plan", {
+    name: "test-goal",
+  });
+  expect(invalid.isError).toBe(true);
+
+  await close();
+});
+
+it("should hide finished goals from init-workspace", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  await callTool(client, "create-workspace", {
+    name: "status-workspace",
+    path: join(TEST_DIR, "status-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "status-workspace" });
+  await callTool(client, "create-goal", {
+    name: "open-goal",
+    plan: "# Open Goal\n\nStill in progress.",
+  });
+  await callTool(client, "create-goal", {
+    name: "finished-goal",
+    plan: "# Finished Goal\n\nAlready shipped.",
+  });
+
+  const statusResult = await callTool(client, "set-goal-status", {
+    name: "finished-goal",
+    status: "done",
+    reason: "Shipped in v1",
+  });
+  expect(statusResult.content[0].text).toBe(
+    'Goal "finished-goal" is now done: Shipped in v1',
+  );
+
+  const initResult = await callTool(client, "init-workspace", {
+    name: "status-workspace",
+  });
+  expect(initResult.content[0].text).toContain("- open-goal [active]");
+  expect(initResult.content[0].text).not.toContain("finished-goal");
+  expect(initResult.content[0].text).toContain("1 finished goal(s) hidden");
+
+  const allResult = await callTool(client, "init-workspace", {
+    name: "status-workspace",
+    include_finished: true,
+  });
+  expect(allResult.content[0].text).toContain("- finished-goal [done]");
+
+  await close();
+});
+
+it("should report and update goal progress", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  await callTool(client, "create-workspace", {
+    name: "progress-workspace",
+    path: join(TEST_DIR, "progress-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "progress-workspace" });
+  await callTool(client, "create-goal", {
+    name: "test-goal",
+    plan: "# Test Goal\n\nDescription.\n\n## [TODO] Phase 1: Build\n\n- [ ] Write code\n- [ ] Write tests\n",
+  });
+
+  const completeResult = await callTool(client, "complete-task", {
+    name: "test-goal",
+    task: "Write code",
+  });
+  expect(completeResult.content[0].text).toBe(
+    'Task "Write code" marked as done. Goal "test-goal" is now 50% complete.',
+  );
+
+  const progressResult = await callTool(client, "get-goal-progress", {
+    name: "test-goal",
+  });
+  expect(progressResult.content[0].text).toContain(
+    "[TODO] Phase 1: Build: 50%",
+  );
+  expect(progressResult.content[0].text).toContain(
+    "- Write tests (Phase 1: Build)",
+  );
+
+  const resource = await client.request(
+    { method: "resources/read", params: { uri: "goals://test-goal/progress" } },
+    ReadResourceResultSchema,
+  );
+  expect(JSON.parse(resource.contents[0].text as string)).toMatchObject({
+    completed_tasks: 1,
+    total_tasks: 2,
+    percent_complete: 50,
+  });
+
+  await close();
+});
+
+it("should render sub-goals and blocked goals in init-workspace", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  await callTool(client, "create-workspace", {
+    name: "tree-workspace",
+    path: join(TEST_DIR, "tree-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "tree-workspace" });
+  await callTool(client, "create-goal", {
+    name: "epic",
+    plan: "# Epic\n\nThe big one.",
+  });
+  await callTool(client, "create-goal", {
+    name: "api",
+    plan: "# API\n\nBackend work.",
+    parent: "epic",
+  });
+  await callTool(client, "create-goal", {
+    name: "ui",
+    plan: "# UI\n\nFrontend work.",
+  });
+
+  const relationsResult = await callTool(client, "set-goal-dependencies", {
+    name: "ui",
+    parent: "epic",
+    depends_on: ["api"],
+  });
+  expect(relationsResult.content[0].text).toBe(
+    'Goal "ui" is a sub-goal of "epic" and depends on "api"',
+  );
+
+  const cycleResult = await callTool(client, "set-goal-dependencies", {
+    name: "api",
+    depends_on: ["ui"],
+  });
+  expect(cycleResult.isError).toBe(true);
+
+  const initResult = await callTool(client, "init-workspace", {
+    name: "tree-workspace",
+  });
+  expect(initResult.content[0].text).toContain("- epic [active]: Epic");
+  expect(initResult.content[0].text).toContain("  - api [active]: API");
+  expect(initResult.content[0].text).toContain(
+    "  - ui [active]: UI (BLOCKED by: api)",
+  );
+
+  await close();
+});
+
+it("should search plans and learnings through the tool and resource", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  await callTool(client, "create-workspace", {
+    name: "search-workspace",
+    path: join(TEST_DIR, "search-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "search-workspace" });
+  await callTool(client, "create-goal", {
+    name: "storage",
+    plan: "# Storage\n\nAdd atomic writes to the state store.",
+  });
+
+  const toolResult = await callTool(client, "search", {
+    query: "atomic writes",
+  });
+  expect(toolResult.content[0].text).toContain(
+    '1 result(s) for "atomic writes"',
+  );
+  expect(toolResult.content[0].text).toContain(
+    ".goals/goals/storage/plan.md:3 [storage] § Storage",
+  );
+
+  const resource = await client.request(
+    {
+      method: "resources/read",
+      params: { uri: "goals://search?q=atomic%20writes" },
+    },
+    ReadResourceResultSchema,
+  );
+  expect(JSON.parse(resource.contents[0].text as string)).toEqual([
+    expect.objectContaining({ goal: "storage", kind: "plan", line: 3 }),
+  ]);
+
+  for (const uri of [
+    "goals://search",
+    "goals://search?q=",
+    "goals://search?x=1",
+  ]) {
+    await expect(
+      client.request(
+        { method: "resources/read", params: { uri } },
+        ReadResourceResultSchema,
+      ),
+    ).rejects.toThrow("Add a query to search, e.g. goals://search?q=locking");
+  }
+
+  await expect(
+    callTool(client, "search", { query: "atomic", since: "garbage" }),
+  ).rejects.toThrow("Expected an ISO date like 2025-03-31");
+
+  await close();
+});
+
+it("should delete, rename and move workspaces", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  const readWorkspaces = async () => {
+    const result = await client.request(
+      { method: "resources/read", params: { uri: "workspaces://list" } },
+      ReadResourceResultSchema,
+    );
+    return result.contents[0].text as string;
+  };
+
+  const originalPath = join(TEST_DIR, "original");
+  const movedPath = join(TEST_DIR, "moved");
+  await mkdir(originalPath, { recursive: true });
+  await callTool(client, "create-workspace", {
+    name: "project",
+    path: originalPath,
+  });
+  await callTool(client, "create-workspace", {
+    name: "stale",
+    path: join(TEST_DIR, "never-created"),
+  });
+
+  expect(await readWorkspaces()).toContain(
+    `stale: ${join(TEST_DIR, "never-created")}`,
+  );
+  expect(await readWorkspaces()).toMatch(
+    /stale: .*\[MISSING: path does not exist\]/,
+  );
+  expect(await readWorkspaces()).not.toMatch(/project: .*MISSING/);
+
+  const duplicate = await callTool(client, "create-workspace", {
+    name: "copy",
+    path: originalPath,
+  });
+  expect(duplicate.isError).toBe(true);
+  expect(duplicate.content[0].text).toContain(
+    'is already registered as workspace "project"',
+  );
+
+  const relative = await callTool(client, "create-workspace", {
+    name: "relative",
+    path: "relative/path",
+  });
+  expect(relative.content[0].text).toBe(
+    'Workspace path "relative/path" must be absolute',
+  );
+
+  await callTool(client, "init-workspace", { name: "project" });
+  await callTool(client, "create-goal", { name: "base", plan: "# Base" });
+  await callTool(client, "create-workspace", {
+    name: "dependent",
+    path: join(TEST_DIR, "dependent"),
+  });
+  await callTool(client, "create-goal", {
+    name: "follow-up",
+    plan: "# Follow up",
+    depends_on: ["project:base"],
+    workspace: "dependent",
+  });
+  const renameResult = await callTool(client, "rename-workspace", {
+    name: "project",
+    new_name: "renamed",
+  });
+  expect(renameResult.content[0].text).toBe(
+    'Workspace "project" renamed to "renamed"',
+  );
+  expect((await workspaceManager.getActiveWorkspace())?.name).toBe("renamed");
+  // Dependencies on goals in the renamed workspace follow it
+  expect(
+    await new GoalManager(join(TEST_DIR, "dependent")).getGoal("follow-up"),
+  ).toMatchObject({ depends_on: ["renamed:base"] });
+
+  await rename(originalPath, movedPath);
+  const moveResult = await callTool(client, "move-workspace", {
+    name: "renamed",
+    path: movedPath,
+  });
+  expect(moveResult.content[0].text).toBe(
+    `Workspace "renamed" now points to ${movedPath}`,
+  );
+
+  const deleteResult = await callTool(client, "delete-workspace", {
+    name: "stale",
+  });
+  expect(deleteResult.isError).toBeFalsy();
+
+  const list = await readWorkspaces();
+  expect(list).toContain(`renamed: ${movedPath}`);
+  expect(list).not.toContain("stale");
+  expect(list).not.toContain("project");
+
+  await close();
+});
+
+it("should discover the workspace from client roots", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+
+  const repo = join(TEST_DIR, "discovered-repo");
+  await mkdir(join(repo, ".git"), { recursive: true });
+  await mkdir(join(repo, "src"), { recursive: true });
+
+  const server = createServer(workspaceManager);
+  const client = new Client(
+    { name: "test-client", version: "1.0" },
+    { capabilities: { roots: {} } },
+  );
+  client.setRequestHandler(ListRootsRequestSchema, () => ({
+    roots: [{ uri: pathToFileURL(join(repo, "src")).href }],
+  }));
+
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    client.connect(clientTransport),
+    server.connect(serverTransport),
+  ]);
+
+  const initResult = await callTool(client, "init-workspace", {});
+  expect(initResult.content[0].text).toContain(
+    'Discovered and registered workspace "discovered-repo"',
+  );
+  expect(initResult.content[0].text).toContain(
+    `Workspace "discovered-repo" initialized at ${repo}`,
+  );
+
+  const againResult = await callTool(client, "init-workspace", {});
+  expect(againResult.content[0].text).not.toContain("Discovered");
+  expect((await workspaceManager.getActiveWorkspace())?.path).toBe(repo);
+
+  await client.close();
+  await server.close();
+});
+
+it("should create goals from templates", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  const workspacePath = join(TEST_DIR, "template-workspace");
+  await callTool(client, "create-workspace", {
+    name: "template-workspace",
+    path: workspacePath,
+  });
+  await callTool(client, "init-workspace", { name: "template-workspace" });
+
+  await mkdir(join(TEST_DIR, "templates"), { recursive: true });
+  await writeFile(
+    join(TEST_DIR, "templates", "chore.md"),
+    "# Chore: {{task}}\n\nGlobal chore template for {{goal}}.",
+  );
+  await mkdir(join(workspacePath, ".goals", "templates"), { recursive: true });
+  await writeFile(
+    join(workspacePath, ".goals", "templates", "spike.md"),
+    "# Team spike: {{question}}\n\nOur own spike format.",
+  );
+
+  const listResult = await callTool(client, "list-goal-templates", {});
+  const listText = listResult.content[0].text as string;
+  expect(listText).toContain("- bugfix (builtin)");
+  expect(listText).toContain("- chore (global): Chore: {{task}}");
+  expect(listText).toContain("- spike (workspace): Team spike: {{question}}");
+
+  await callTool(client, "create-goal", {
+    name: "cleanup",
+    template: "chore",
+    variables: { task: "Remove dead code" },
+  });
+  const goalManager = new GoalManager(workspacePath);
+  expect(await goalManager.getPlan("cleanup")).toBe(
+    "# Chore: Remove dead code\n\nGlobal chore template for cleanup.",
+  );
+
+  await callTool(client, "create-goal", {
+    name: "Tidy up/README",
+    template: "chore",
+    variables: { task: "Fix links" },
+  });
+  expect(await goalManager.getPlan("tidy-up-readme")).toBe(
+    "# Chore: Fix links\n\nGlobal chore template for tidy-up-readme.",
+  );
+
+  await callTool(client, "create-goal", {
+    name: "fix-login",
+    template: "bugfix",
+    variables: {
+      title: "Login fails",
+      summary: "Users cannot log in.",
+      symptom: "500 error",
+      expected: "Dashboard loads",
+    },
+  });
+  const progress = await goalManager.getGoalProgress("fix-login");
+  expect(progress.phases).toHaveLength(3);
+  expect(progress.percent_complete).toBe(0);
+
+  const missing = await callTool(client, "create-goal", {
+    name: "incomplete",
+    template: "bugfix",
+    variables: { title: "Oops" },
+  });
+  expect(missing.isError).toBe(true);
+  expect(missing.content[0].text).toBe(
+    'Template "bugfix" is missing variables: summary, symptom, expected',
+  );
+
+  const both = await callTool(client, "create-goal", {
+    name: "both",
+    plan: "# Both",
+    template: "spike",
+  });
+  expect(both.content[0].text).toBe("Provide either plan or template");
+
+  await close();
+});
+
+it("should copy and move goals between workspaces", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  const sourcePath = join(TEST_DIR, "copy-source");
+  const targetPath = join(TEST_DIR, "copy-target");
+  await callTool(client, "create-workspace", {
+    name: "copy-source",
+    path: sourcePath,
+  });
+  await callTool(client, "create-workspace", {
+    name: "copy-target",
+    path: targetPath,
+  });
+  await callTool(client, "init-workspace", { name: "copy-source" });
+  await callTool(client, "create-goal", {
+    name: "backend",
+    plan: "# Backend\n\n- [x] Schema\n- [ ] Endpoints",
+  });
+  await callTool(client, "create-goal", {
+    name: "frontend",
+    plan: "# Frontend",
+    depends_on: ["backend"],
+  });
+
+  const copyResult = await callTool(client, "copy-goal", {
+    name: "frontend",
+    to_workspace: "copy-target",
+  });
+  expect(copyResult.content[0].text).toBe(
+    'Copied goal "frontend" to "copy-target:frontend"',
+  );
+  const target = new GoalManager(targetPath);
+  expect(await target.getGoal("frontend")).toMatchObject({
+    depends_on: ["copy-source:backend"],
+  });
+
+  const moveResult = await callTool(client, "move-goal", {
+    name: "backend",
+    to_workspace: "copy-target",
+    new_name: "api",
+  });
+  expect(moveResult.content[0].text).toBe(
+    'Moved goal "backend" to "copy-target:api"',
+  );
+  const source = new GoalManager(sourcePath);
+  expect(await source.listGoals()).toEqual(["frontend"]);
+  expect(await source.getGoal("frontend")).toMatchObject({
+    depends_on: ["copy-target:api"],
+  });
+
+  // Goals in other workspaces can be read with "workspace:goal"
+  const plan = await client.request(
+    {
+      method: "resources/read",
+      params: { uri: "goals://copy-target%3Aapi/plan" },
+    },
+    ReadResourceResultSchema,
+  );
+  expect(plan.contents[0].text).toBe(
+    "# Backend\n\n- [x] Schema\n- [ ] Endpoints",
+  );
+  const progress = await callTool(client, "get-goal-progress", {
+    name: "copy-target:api",
+  });
+  expect(progress.content[0].text).toContain('Goal "api" is 50% complete');
+
+  const initResult = await callTool(client, "init-workspace", {
+    name: "copy-source",
+  });
+  expect(initResult.content[0].text).toContain("(BLOCKED by: copy-target:api)");
+
+  const dependency = await callTool(client, "set-goal-dependencies", {
+    name: "frontend",
+    depends_on: ["copy-target:missing"],
+  });
+  expect(dependency.isError).toBe(true);
+  expect(dependency.content[0].text).toBe(
+    'Goal "copy-target:missing" does not exist',
+  );
+
+  await close();
+});
+
+it("should archive, delete and restore goals", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  await callTool(client, "create-workspace", {
+    name: "archive-workspace",
+    path: join(TEST_DIR, "archive-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "archive-workspace" });
+  await callTool(client, "create-goal", {
+    name: "old-goal",
+    plan: "# Old goal\n\nNo longer relevant.",
+  });
+  await callTool(client, "create-goal", { name: "current", plan: "# Current" });
+  await callTool(client, "set-active-goal", { name: "old-goal" });
+
+  const archiveResult = await callTool(client, "archive-goal", {
+    name: "old-goal",
+  });
+  expect(archiveResult.content[0].text).toBe(
+    'Goal "old-goal" archived. Use restore-goal to bring it back.',
+  );
+
+  let initText = (
+    await callTool(client, "init-workspace", { name: "archive-workspace" })
+  ).content[0].text as string;
+  expect(initText).not.toContain("- old-goal");
+  expect(initText).toContain("1 archived goal(s) hidden");
+  expect(initText).toContain("no active goal");
+
+  initText = (
+    await callTool(client, "init-workspace", {
+      name: "archive-workspace",
+      include_archived: true,
+    })
+  ).content[0].text as string;
+  expect(initText).toContain("<archived_goals>\n- old-goal [active]: Old goal");
+
+  const readList = async (uri: string) =>
+    JSON.parse(
+      (
+        await client.request(
+          { method: "resources/read", params: { uri } },
+          ReadResourceResultSchema,
+        )
+      ).contents[0].text as string,
+    ) as Array<{ name: string }>;
+  expect((await readList("goals://list")).map((g) => g.name)).toEqual([
+    "current",
+  ]);
+  expect(
+    (await readList("goals://list?archived=true")).map((g) => g.name),
+  ).toEqual(["current", "old-goal"]);
+
+  const deleteResult = await callTool(client, "delete-goal", {
+    name: "old-goal",
+  });
+  expect(deleteResult.content[0].text).toContain(
+    'Goal "old-goal" moved to the trash. It can be restored with restore-goal until',
+  );
+  initText = (
+    await callTool(client, "init-workspace", { name: "archive-workspace" })
+  ).content[0].text as string;
+  expect(initText).not.toContain("archived goal(s) hidden");
+
+  const restoreResult = await callTool(client, "restore-goal", {
+    name: "old-goal",
+  });
+  expect(restoreResult.content[0].text).toBe('Goal "old-goal" restored');
+  expect((await readList("goals://list")).map((g) => g.name).sort()).toEqual([
+    "current",
+    "old-goal",
+  ]);
+
+  await close();
+});
+
+it("should diff and revert plan versions", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  await callTool(client, "create-workspace", {
+    name: "history-workspace",
+    path: join(TEST_DIR, "history-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "history-workspace" });
+  await callTool(client, "create-goal", {
+    name: "plan",
+    plan: "# Plan\n\n## Steps\n\nStep one.\n",
+  });
+  await callTool(client, "update-goal-plan", {
+    name: "plan",
+    section: "Steps",
+    content: "Step two.",
+    note: "Skip step one",
+  });
+
+  const history = await client.request(
+    {
+      method: "resources/read",
+      params: { uri: "goals://plan/plan/history" },
+    },
+    ReadResourceResultSchema,
+  );
+  const versions = JSON.parse(history.contents[0].text as string) as Array<{
+    note: string | null;
+  }>;
+  expect(versions.map((v) => v.note)).toEqual([
+    "Created goal",
+    "Skip step one",
+  ]);
+
+  const diffResult = await callTool(client, "diff-plan-versions", {
+    name: "plan",
+  });
+  expect(diffResult.content[0].text).toContain("-Step one.\n+Step two.\n");
+
+  const revertResult = await callTool(client, "revert-plan", {
+    name: "plan",
+    version: 1,
+  });
+  expect(revertResult.content[0].text).toBe(
+    'Plan for goal "plan" reverted to version 1 (now version 3)',
+  );
+  const identical = await callTool(client, "diff-plan-versions", {
+    name: "plan",
+    from: 1,
+  });
+  expect(identical.content[0].text).toBe(
+    'Versions 1 and 3 of goal "plan" are identical',
+  );
+
+  await close();
+});
+
+it("should record sessions and resume from the last next steps", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  await callTool(client, "create-workspace", {
+    name: "session-workspace",
+    path: join(TEST_DIR, "session-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "session-workspace" });
+
+  const noGoal = await callTool(client, "start-session", {});
+  expect(noGoal.isError).toBe(true);
+  expect(noGoal.content[0].text).toBe(
+    "No goal given and no goal is active. Call set-active-goal first.",
+  );
+
+  await callTool(client, "create-goal", {
+    name: "journal",
+    plan: "# Journal\n\nKeep a journal.",
+  });
+  await callTool(client, "set-active-goal", { name: "journal" });
+
+  const started = await callTool(client, "start-session", {});
+  expect(started.content[0].text).toContain(
+    'Session 1 on goal "journal" started at',
+  );
+  const ended = await callTool(client, "end-session", {
+    summary: "Set up the journal",
+    files_touched: ["src/goals.ts"],
+    next_steps: ["Show sessions in init-workspace", "Write docs"],
+  });
+  expect(ended.content[0].text).toContain(
+    'Session 1 on goal "journal" ended at',
+  );
+
+  const initText = (
+    await callTool(client, "init-workspace", { name: "session-workspace" })
+  ).content[0].text as string;
+  expect(initText).toContain(
+    "Set up the journal\n\nNext steps:\n- Show sessions in init-workspace\n- Write docs\n</last_session>",
+  );
+
+  const resumed = await callTool(client, "start-session", { goal: "journal" });
+  expect(resumed.content[0].text).toContain("<last_session ended_at=");
+
+  const journal = await client.request(
+    {
+      method: "resources/read",
+      params: { uri: "goals://journal/journal" },
+    },
+    ReadResourceResultSchema,
+  );
+  expect(JSON.parse(journal.contents[0].text as string)).toHaveLength(2);
+
+  await close();
+});
+
+it("should brief the active goal within a budget", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  await callTool(client, "create-workspace", {
+    name: "briefing-workspace",
+    path: join(TEST_DIR, "briefing-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "briefing-workspace" });
+  await callTool(client, "create-goal", {
+    name: "briefed",
+    plan: `# Briefed
+
+## [COMPLETE] Phase 1: Setup
+
+- [x] Create repo
+
+## [IN PROGRESS] Phase 2: Build
+
+- [x] Write core
+- [ ] Write tests
+
+## Notes
+
+${"Background detail.\n".repeat(200)}`,
+  });
+  await callTool(client, "set-active-goal", { name: "briefed" });
+  await callTool(client, "start-session", {});
+  await callTool(client, "end-session", {
+    summary: "Wrote the core",
+    next_steps: ["Write tests"],
+  });
+  await callTool(client, "create-learning", {
+    title: "Use fixtures",
+    context: "Testing",
+    details: "Fixtures keep tests short",
+    rationale: "Less setup",
+    goal: "briefed",
+  });
+
+  const resource = await client.request(
+    {
+      method: "resources/read",
+      params: { uri: "goals://active/briefing" },
+    },
+    ReadResourceResultSchema,
+  );
+  const full = resource.contents[0].text as string;
+  expect(full).toContain(
+    "# Briefing: briefed\n\nStatus: active, 75% complete (2/3 tasks)",
+  );
+  expect(full).toContain(
+    "## Current phase\n\n[IN PROGRESS] Phase 2: Build (50% complete)\n- [ ] Write tests",
+  );
+  expect(full).toContain("Next steps:\n- Write tests");
+  expect(full).toContain("Use fixtures");
+
+  const short = await callTool(client, "get-briefing", { max_chars: 1000 });
+  const text = short.content[0].text as string;
+  expect(text.length).toBeLessThanOrEqual(1000);
+  expect(text).toContain("## Current phase");
+  expect(text).toContain("## Last session");
+  expect(text).toContain("…(truncated)");
+
+  await close();
+});
+
+it("should offer prompts for planning, learnings and retrospectives", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  await callTool(client, "create-workspace", {
+    name: "prompt-workspace",
+    path: join(TEST_DIR, "prompt-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "prompt-workspace" });
+  await callTool(client, "create-goal", {
+    name: "prompted",
+    plan: "# Prompted\n\nA goal for prompts.\n\n## [TODO] Phase 1: Start\n\n- [ ] First task",
+  });
+  await callTool(client, "create-learning", {
+    title: "Prompts need arguments",
+    context: "Testing prompts",
+    details: "Arguments are strings",
+    rationale: "MCP spec",
+    goal: "prompted",
+  });
+
+  const getPrompt = async (name: string, args: Record<string, string>) => {
+    const result = await client.request(
+      { method: "prompts/get", params: { name, arguments: args } },
+      GetPromptResultSchema,
+    );
+    return result.messages[0].content.text as string;
+  };
+
+  const prompts = await client.request(
+    { method: "prompts/list" },
+    ListPromptsResultSchema,
+  );
+  expect(prompts.prompts.map((prompt) => prompt.name)).toEqual([
+    "plan-new-goal",
+    "record-learning",
+    "goal-retrospective",
+    "resume-goal",
+  ]);
+  expect(prompts.prompts[0].arguments).toContainEqual({
+    name: "objective",
+    required: true,
+  });
+
+  const plan = await getPrompt("plan-new-goal", { objective: "Add caching" });
+  expect(plan).toContain("Add caching");
+  expect(plan).toContain("- bugfix: Fix: {{title}}");
+  expect(plan).toContain("- prompted [active]: Prompted");
+
+  const learning = await getPrompt("record-learning", {
+    topic: "Cache invalidation",
+    goal: "prompted",
+  });
+  expect(learning).toContain("Record a learning about: Cache invalidation");
+  expect(learning).toContain('Call create-learning with goal "prompted".');
+
+  const retrospective = await getPrompt("goal-retrospective", {
+    goal: "prompted",
+  });
+  expect(retrospective).toContain("<plan>\n# Prompted");
+  expect(retrospective).toContain("## Prompts need arguments");
+
+  await callTool(client, "set-active-goal", { name: "prompted" });
+  const resume = await getPrompt("resume-goal", {});
+  expect(resume).toContain("# Briefing: prompted");
+  expect(resume).toContain("Call start-session before starting.");
+
+  await close();
+});
+
+it("should list goals by front matter and flag overdue goals", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  await callTool(client, "create-workspace", {
+    name: "front-matter-workspace",
+    path: join(TEST_DIR, "front-matter-workspace"),
+  });
+  await callTool(client, "init-workspace", { name: "front-matter-workspace" });
+  await callTool(client, "create-goal", {
+    name: "release",
+    plan: "---\npriority: high\ntags: [ops]\ndue: 2000-06-30\n---\n# Release\n\nShip it.",
+  });
+  await callTool(client, "create-goal", {
+    name: "docs",
+    plan: "---\npriority: low\n---\n# Docs",
+  });
+
+  const initText = (
+    await callTool(client, "init-workspace", {
+      name: "front-matter-workspace",
+    })
+  ).content[0].text as string;
+  expect(initText).toContain('OVERDUE: "release" (due 2000-06-30)');
+  expect(initText).toContain(
+    "- release [active] (high priority, due 2000-06-30, OVERDUE, #ops): Release\n- docs [active] (low priority): Docs",
+  );
+
+  const listed = await callTool(client, "list-goals", { tag: "ops" });
+  expect(listed.content[0].text).toBe(
+    "- release [active] (high priority, due 2000-06-30, OVERDUE, #ops): Release",
+  );
+  const none = await callTool(client, "list-goals", { priority: "critical" });
+  expect(none.content[0].text).toBe("No goals match");
+
+  const resource = await client.request(
+    {
+      method: "resources/read",
+      params: { uri: "goals://list?sort=name&priority=low" },
+    },
+    ReadResourceResultSchema,
+  );
+  const lowPriority = JSON.parse(resource.contents[0].text as string) as Array<{
+    name: string;
+  }>;
+  expect(lowPriority.map((g) => g.name)).toEqual(["docs"]);
+
+  // Goals whose names start with "list" are not mistaken for list queries
+  await callTool(client, "create-goal", {
+    name: "list-cleanup",
+    plan: "# Cleanup",
+  });
+  const goal = await client.request(
+    { method: "resources/read", params: { uri: "goals://list-cleanup" } },
+    ReadResourceResultSchema,
+  );
+  expect(JSON.parse(goal.contents[0].text as string)).toMatchObject({
+    name: "list-cleanup",
+  });
+  const plan = await client.request(
+    { method: "resources/read", params: { uri: "goals://list-cleanup/plan" } },
+    ReadResourceResultSchema,
+  );
+  expect(plan.contents[0].text).toBe("# Cleanup");
+
+  await close();
+});
+
+it("should return structured results and error codes from tools", async () => {
+  // A fresh config directory, so that no workspace is active yet
+  const configDir = join(TEST_DIR, "structured-config");
+  await rm(configDir, { recursive: true, force: true });
+  const workspaceManager = new WorkspaceManager(configDir);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  const noWorkspace = await callTool(client, "list-goals", {});
+  expect(noWorkspace.isError).toBe(true);
+  expect(noWorkspace.structuredContent).toEqual({
+    error: {
+      code: "NO_ACTIVE_WORKSPACE",
+      message: "No workspace is currently active. Call init-workspace first.",
+    },
+  });
+
+  const created = await callTool(client, "create-workspace", {
+    name: "structured-workspace",
+    path: join(TEST_DIR, "structured-workspace"),
+  });
+  expect(created.structuredContent).toMatchObject({
+    workspace: {
+      name: "structured-workspace",
+      path: join(TEST_DIR, "structured-workspace"),
+    },
+  });
+  await callTool(client, "init-workspace", { name: "structured-workspace" });
+
+  const goal = await callTool(client, "create-goal", {
+    name: "Ship the API",
+    plan: "# Ship the API\n\n- [ ] Write docs\n- [x] Build it",
+  });
+  expect(goal.content[0].text).toBe(
+    'Goal "ship-the-api" created successfully with the title "Ship the API"',
+  );
+  expect(goal.structuredContent).toEqual({
+    goal: "ship-the-api",
+    title: "Ship the API",
+    status: "active",
+    parent: null,
+    depends_on: [],
+  });
+
+  const status = await callTool(client, "set-goal-status", {
+    name: "ship-the-api",
+    status: "blocked",
+    reason: "Waiting on review",
+  });
+  expect(status.structuredContent).toMatchObject({
+    goal: "ship-the-api",
+    status: { status: "blocked", reason: "Waiting on review" },
+  });
+
+  const task = await callTool(client, "complete-task", {
+    name: "ship-the-api",
+    task: "Write docs",
+  });
+  expect(task.structuredContent).toMatchObject({
+    task: { text: "Write docs", done: true },
+    progress: { completed_tasks: 2, total_tasks: 2, percent_complete: 100 },
+  });
+
+  const draft = await callTool(client, "create-goal", {
+    name: "draft-idea",
+    plan: "# Draft idea",
+    status: "draft",
+  });
+  expect(draft.structuredContent).toMatchObject({
+    goal: "draft-idea",
+    status: "draft",
+  });
+  const drafts = await callTool(client, "list-goals", { status: "draft" });
+  expect(drafts.content[0].text).toBe("- draft-idea [draft]: Draft idea");
+
+  const errors = await Promise.all([
+    callTool(client, "create-goal", { name: "ship-the-api", plan: "# Again" }),
+    callTool(client, "create-goal", { name: "???", plan: "# Nothing" }),
+    callTool(client, "set-active-goal", { name: "missing" }),
+    callTool(client, "set-goal-status", {
+      name: "ship-the-api",
+      status: "draft",
+    }),
+    callTool(client, "init-workspace", { name: "missing-workspace" }),
+    callTool(client, "start-session", {}),
+  ]);
+  expect(
+    errors.map((result) => [
+      result.isError,
+      (result.structuredContent as { error: { code: string } }).error.code,
+    ]),
+  ).toEqual([
+    [true, "GOAL_EXISTS"],
+    [true, "INVALID_NAME"],
+    [true, "GOAL_NOT_FOUND"],
+    [true, "INVALID_STATUS_TRANSITION"],
+    [true, "WORKSPACE_NOT_FOUND"],
+    [true, "NO_ACTIVE_GOAL"],
+  ]);
+
+  // Arguments that do not match the schema are protocol errors
+  await expect(
+    callTool(client, "create-goal", { name: 5, plan: "# Five" }),
+  ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+
+  await close();
+});
+
+it("should describe every tool and its arguments", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const { client, close } = await connectTestClient(workspaceManager);
+
+  const { tools } = await client.listTools();
+  expect(tools.length).toBeGreaterThan(0);
+  for (const tool of tools) {
+    expect(tool.description).toBeTruthy();
+  }
+
+  const createLearning = tools.find((tool) => tool.name === "create-learning");
+  expect(createLearning?.description).toContain(
+    "Throughout implementation, maintain a record of learnings",
+  );
+  expect(createLearning?.inputSchema.properties).toMatchObject({
+    title: { type: "string", description: "Brief title of the learning" },
+  });
+  const listGoals = tools.find((tool) => tool.name === "list-goals");
+  expect(listGoals?.inputSchema.properties).toMatchObject({
+    workspace: {
+      description:
+        "Name of the workspace to use instead of the active one for this call",
+    },
+  });
+
+  await close();
+});
+
+it("should keep the active workspace and goal per session", async () => {
+  const workspaceManager = new WorkspaceManager(TEST_DIR);
+  await workspaceManager.init();
+  const first = await connectTestClient(workspaceManager);
+  const second = await connectTestClient(workspaceManager);
+
+  for (const name of ["session-one", "session-two"]) {
+    await callTool(first.client, "create-workspace", {
+      name,
+      path: join(TEST_DIR, name),
+    });
+  }
+  await callTool(first.client, "init-workspace", { name: "session-one" });
+  await callTool(second.client, "init-workspace", { name: "session-two" });
+
+  await callTool(first.client, "create-goal", { name: "alpha", plan: "# A" });
+  await callTool(first.client, "create-goal", { name: "beta", plan: "# B" });
+  const explicit = await callTool(second.client, "create-goal", {
+    name: "gamma",
+    plan: "# G",
+    workspace: "session-one",
+  });
+  expect(explicit.isError).toBeFalsy();
+
+  const firstGoals = await callTool(first.client, "list-goals", {});
+  expect(firstGoals.content[0].text).toBe(
+    "- alpha [active]: A\n- beta [active]: B\n- gamma [active]: G",
+  );
+  const secondGoals = await callTool(second.client, "list-goals", {});
+  expect(secondGoals.content[0].text).toBe("No goals match");
+
+  await callTool(first.client, "set-active-goal", { name: "alpha" });
+  await callTool(second.client, "set-active-goal", {
+    name: "beta",
+    workspace: "session-one",
+  });
+  const briefing = await callTool(first.client, "get-briefing", {});
+  expect(briefing.content[0].text).toContain("# Briefing: alpha");
+  const otherBriefing = await callTool(second.client, "get-briefing", {
+    workspace: "session-one",
+  });
+  expect(otherBriefing.content[0].text).toContain("# Briefing: beta");
+
+  // Templates and progress come from the workspace the call targets
+  const templatesDir = join(TEST_DIR, "session-one", ".goals", "templates");
+  await mkdir(templatesDir, { recursive: true });
+  await writeFile(join(templatesDir, "memo.md"), "# Memo for {{goal}}");
+  const templates = await callTool(second.client, "list-goal-templates", {
+    workspace: "session-one",
+  });
+  expect(templates.content[0].text).toContain("- memo (workspace)");
+  const ownTemplates = await callTool(second.client, "list-goal-templates", {});
+  expect(ownTemplates.content[0].text).not.toContain("memo");
+  const fromTemplate = await callTool(second.client, "create-goal", {
+    name: "delta",
+    template: "memo",
+    workspace: "session-one",
+  });
+  expect(fromTemplate.isError).toBeFalsy();
+  const progress = await callTool(second.client, "get-goal-progress", {
+    name: "delta",
+    workspace: "session-one",
+  });
+  expect(progress.content[0].text).toContain('Goal "delta" is 0% complete');
+
+  // New sessions start from the workspace and goal chosen last
+  const third = await connectTestClient(workspaceManager);
+  const thirdBriefing = await callTool(third.client, "get-briefing", {
+    workspace: "session-one",
+  });
+  expect(thirdBriefing.content[0].text).toContain("# Briefing: beta");
+
+  await first.close();
+  await second.close();
+  await third.close();
+});
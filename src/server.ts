@@ -3,12 +3,36 @@ import {
   ResourceTemplate,
 } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { WorkspaceManager } from "./workspace.js";
-import { GoalManager } from "./goals.js";
-import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { Workspace, WorkspaceManager } from "./workspace.js";
+import {
+  FINISHED_GOAL_STATUSES,
+  GOAL_PRIORITIES,
+  GOAL_SORT_KEYS,
+  GOAL_STATUSES,
+  GoalManager,
+  INITIAL_GOAL_STATUSES,
+  GoalResolver,
+  GoalSummary,
+  GoalTreeNode,
+  parseGoalReference,
+  Session,
+  TRASH_RETENTION_DAYS,
+} from "./goals.js";
+import { SearchResult } from "./search.js";
+import { TemplateManager } from "./templates.js";
+import { DEFAULT_BRIEFING_CHARS } from "./briefing.js";
+import {
+  CallToolResult,
+  Resource,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { fileURLToPath } from "url";
+import { getErrorCode, GoalsError } from "./errors.js";
+import { toGoalName } from "./names.js";
 
 const LEARNINGS_INSTRUCTIONS = `
-  Throughout implementation, maintain a record of learnings. You can create a new learning by calling your create_learning tool from mcp-goals. You should create a new learning whenever you encounter:
+  Throughout implementation, maintain a record of learnings. You can create a new learning by calling the create-learning tool from mcp-goals. You should create a new learning whenever you encounter:
 
   * Design decisions made and their rationale
   * Steps attempted (both successful and failed) and their outcomes
@@ -37,6 +61,198 @@ const LEARNINGS_INSTRUCTIONS = `
   [Any relevant documentation links or references]
   `;
 
+export const GOAL_QUERY_SHAPE = {
+  status: z.enum(GOAL_STATUSES).optional(),
+  priority: z.enum(GOAL_PRIORITIES).optional(),
+  tag: z.string().optional(),
+  owner: z.string().optional(),
+  due_before: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date like 2025-03-31")
+    .optional(),
+  overdue: z.boolean().optional(),
+  sort: z.enum(GOAL_SORT_KEYS).optional(),
+};
+
+// A date like 2025-03-31, optionally followed by a time
+const ISO_DATE = z
+  .string()
+  .regex(
+    /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/,
+    "Expected an ISO date like 2025-03-31 or 2025-03-31T12:00:00Z",
+  );
+
+// The same filters as list-goals, given as goals://list query parameters
+const GOAL_LIST_PARAMS = z.object({
+  ...GOAL_QUERY_SHAPE,
+  overdue: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  archived: z.enum(["true", "false"]).optional(),
+});
+
+// Lets a tool call work in a workspace other than the session's active one
+const WORKSPACE_PROPERTY = {
+  type: "string",
+  description:
+    "Name of the workspace to use instead of the active one for this call",
+};
+
+// "name [status] (high priority, due 2025-01-31, OVERDUE, #tag): title"
+export function formatGoalSummary(goal: GoalSummary): string {
+  const details = [
+    goal.priority ? `${goal.priority} priority` : null,
+    goal.due ? `due ${goal.due}` : null,
+    goal.overdue ? "OVERDUE" : null,
+    ...goal.tags.map((tag) => `#${tag}`),
+  ].filter(Boolean);
+
+  return (
+    `${goal.name} [${goal.status}]` +
+    (details.length > 0 ? ` (${details.join(", ")})` : "") +
+    (goal.description ? `: ${goal.description.split("\n")[0]}` : "")
+  );
+}
+
+// Renders goals as a nested list. Children of hidden goals are shown at the
+// hidden goal's level so that nothing visible is lost.
+function renderGoalTree(
+  nodes: GoalTreeNode[],
+  isVisible: (goal: GoalSummary) => boolean,
+  depth: number = 0,
+): string {
+  return nodes
+    .map((node) => {
+      if (!isVisible(node)) {
+        return renderGoalTree(node.children, isVisible, depth);
+      }
+
+      let line = `\n${"  ".repeat(depth)}- ${formatGoalSummary(node)}`;
+      const { blocked_by } = node;
+      if (blocked_by.length > 0) {
+        line += ` (BLOCKED by: ${blocked_by.join(", ")})`;
+      }
+      return line + renderGoalTree(node.children, isVisible, depth + 1);
+    })
+    .join("");
+}
+
+function formatLastSession(session: Session): string {
+  let text = `<last_session ended_at="${session.ended_at}">\n${session.summary}`;
+  if (session.next_steps.length > 0) {
+    text += `\n\nNext steps:\n${session.next_steps.map((step) => `- ${step}`).join("\n")}`;
+  }
+  return `${text}\n</last_session>`;
+}
+
+// Tool results carry text for the model and the same outcome as JSON in
+// structuredContent for clients to act on
+function toolResult(
+  text: string,
+  structuredContent: Record<string, unknown>,
+): CallToolResult {
+  return { content: [{ type: "text", text }], structuredContent };
+}
+
+// Tools are registered with their description, which clients show to models
+interface ToolDefinition extends Tool {
+  description: string;
+}
+
+// The SDK builds each tool's input schema from its zod shape, so the argument
+// descriptions in the tool's definition are copied onto the shape
+function describeShape<Shape extends z.ZodRawShape>(
+  tool: ToolDefinition,
+  shape: Shape,
+): Shape {
+  const properties = (tool.inputSchema.properties ?? {}) as Record<
+    string,
+    { description?: string }
+  >;
+  return Object.fromEntries(
+    Object.entries(shape).map(([key, schema]) => {
+      const description = properties[key]?.description;
+      return [key, description ? schema.describe(description) : schema];
+    }),
+  ) as Shape;
+}
+
+// Reports failures as error results with a stable code instead of throwing.
+// Schema validation happens before the callback, so invalid arguments are
+// still JSON-RPC InvalidParams errors.
+function handleErrors<Args extends unknown[]>(
+  callback: (...args: Args) => Promise<CallToolResult>,
+): (...args: Args) => Promise<CallToolResult> {
+  return async (...args) => {
+    try {
+      return await callback(...args);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text", text: message }],
+        structuredContent: { error: { code: getErrorCode(error), message } },
+        isError: true,
+      };
+    }
+  };
+}
+
+// A goal in another workspace is addressed as "workspace:goal", but in a URI
+// the colon would start a port, so it has to be percent-encoded
+function goalResourceDescription(what: string, suffix: string): string {
+  return `${what}, e.g. goals://fix-login${suffix}. For a goal in another workspace, encode the colon: goals://workspace%3Afix-login${suffix}`;
+}
+
+function formatSearchResults(query: string, results: SearchResult[]): string {
+  if (results.length === 0) {
+    return `No results for "${query}"`;
+  }
+
+  return (
+    `${results.length} result(s) for "${query}":\n` +
+    results
+      .map(
+        ({ path, line, goal, section, snippet }) =>
+          `\n${path}:${line}${goal ? ` [${goal}]` : ""}${section ? ` § ${section}` : ""}\n  ${snippet}`,
+      )
+      .join("\n")
+  );
+}
+
+// Resolves "workspace:goal" dependencies against the registered workspaces
+export function createGoalResolver(
+  workspaceManager: WorkspaceManager,
+): GoalResolver {
+  return {
+    async getGoalStatus(workspaceName, goal) {
+      const workspace = (await workspaceManager.getAll()).find(
+        (w) => w.name === workspaceName,
+      );
+      if (!workspace) return null;
+
+      const goalManager = new GoalManager(workspace.path);
+      if (!(await goalManager.listGoals()).includes(goal)) return null;
+      return (await goalManager.getGoalStatus(goal)).status;
+    },
+  };
+}
+
+// Cross-workspace dependencies name the workspace, so they are rewritten in
+// every registered workspace when one is renamed
+async function renameWorkspaceReferences(
+  workspaceManager: WorkspaceManager,
+  name: string,
+  newName: string,
+): Promise<void> {
+  for (const workspace of await workspaceManager.getAll()) {
+    await new GoalManager(workspace.path).renameWorkspaceReferences(
+      name,
+      newName,
+    );
+  }
+}
+
 export function createServer(workspaceManager: WorkspaceManager): McpServer {
   const server = new McpServer({
     name: "Goals MCP Server",
@@ -48,13 +264,14 @@ export function createServer(workspaceManager: WorkspaceManager): McpServer {
   });
 
   // Define tools with detailed descriptions
-  const CREATE_WORKSPACE_TOOL: Tool = {
+  const CREATE_WORKSPACE_TOOL: ToolDefinition = {
     name: "create-workspace",
     description: `Creates a new workspace for managing goals.
 
       A workspace corresponds to a specific directory (usually a git repository)
       where goals and related data will be stored.
-      Each workspace must have a unique name and a valid filesystem path.`,
+      Each workspace must have a unique name and a valid filesystem path: the path must be
+      absolute, must exist or be creatable, and must not already belong to another workspace.`,
     inputSchema: {
       type: "object",
       properties: {
@@ -73,33 +290,110 @@ export function createServer(workspaceManager: WorkspaceManager): McpServer {
     },
   };
 
-  const INIT_WORKSPACE_TOOL: Tool = {
+  const DELETE_WORKSPACE_TOOL: ToolDefinition = {
+    name: "delete-workspace",
+    description: `Removes a workspace from the list of known workspaces.
+
+      Only the registration is removed; the workspace directory and its goals are left on disk.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the workspace to remove",
+        },
+      },
+      required: ["name"],
+    },
+  };
+
+  const RENAME_WORKSPACE_TOOL: ToolDefinition = {
+    name: "rename-workspace",
+    description: "Renames a workspace. Its path and goals are unchanged.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Current name of the workspace",
+        },
+        new_name: {
+          type: "string",
+          description: "New unique name for the workspace",
+        },
+      },
+      required: ["name", "new_name"],
+    },
+  };
+
+  const MOVE_WORKSPACE_TOOL: ToolDefinition = {
+    name: "move-workspace",
+    description: `Updates the filesystem path of a workspace, e.g. after its repository was moved.
+
+      Goal data is not copied; the .goals directory is expected to have moved with the repository.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the workspace",
+        },
+        path: {
+          type: "string",
+          description: "New absolute filesystem path of the workspace",
+        },
+      },
+      required: ["name", "path"],
+    },
+  };
+
+  const INIT_WORKSPACE_TOOL: ToolDefinition = {
     name: "init-workspace",
     description: `Initializes or activates an existing workspace. You should always call this at the start of a session.
 
       Returns information about the workspace including:
         - Current active goal and its description
-        - List of other available goals
-        - Instructions for confirming or changing the active goal`,
+        - List of other available goals and their status, with sub-goals nested
+          under their parents and goals blocked by unfinished dependencies flagged
+        - Instructions for confirming or changing the active goal
+
+      If no name is given, the workspace is discovered from the client's roots or the
+      server's working directory: the nearest directory with a .goals directory, or
+      the git repository root, is used and registered if it is not known yet.
+
+      The workspace stays active for this session only. Other clients keep their own
+      active workspace; new sessions start in the workspace initialized last.`,
     inputSchema: {
       type: "object",
       properties: {
         name: {
           type: "string",
-          description: "Name of an existing workspace to initialize",
+          description:
+            "Name of an existing workspace to initialize. Omit to discover it.",
+        },
+        include_finished: {
+          type: "boolean",
+          description:
+            "Also list goals whose status is done or abandoned (hidden by default)",
+        },
+        include_archived: {
+          type: "boolean",
+          description: "Also list archived goals (hidden by default)",
         },
       },
-      required: ["name"],
     },
   };
 
-  const CREATE_GOAL_TOOL: Tool = {
+  const CREATE_GOAL_TOOL: ToolDefinition = {
     name: "create-goal",
     description: `Creates a new goal in the current workspace.
 
       The plan content should be a markdown document that describes the goal and its implementation plan.
       The first heading (# Title) and the following paragraph will be used as the goal's summary when listing goals.
 
+      Instead of writing the plan, you can render it from a template (see list-goal-templates)
+      by giving the template name and values for its variables.
+
       Example plan format:
       # Goal Title
 
@@ -116,21 +410,120 @@ export function createServer(workspaceManager: WorkspaceManager): McpServer {
       properties: {
         name: {
           type: "string",
-          description: "Name of the goal (will be used in commands and URLs)",
+          description: `Name of the goal (will be used in commands and URLs): lowercase letters, digits and hyphens, e.g. fix-login-bug.
+            Any other text, such as "Fix login bug", is turned into such a name and kept as the goal's title.`,
         },
         plan: {
           type: "string",
           description: "Full markdown content of the goal's plan",
         },
+        template: {
+          type: "string",
+          description:
+            "Name of a template to render the plan from, e.g. bugfix, feature, migration or spike",
+        },
+        variables: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Values for the template's {{variable}} placeholders",
+        },
+        parent: {
+          type: "string",
+          description: "Name of the goal this is a sub-goal of",
+        },
+        depends_on: {
+          type: "array",
+          items: { type: "string" },
+          description: "Names of goals that must be done before this one",
+        },
+        status: {
+          type: "string",
+          enum: [...INITIAL_GOAL_STATUSES],
+          description:
+            "Status to start in. Defaults to active; use draft for a goal that is not ready to work on yet.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name"],
+    },
+  };
+
+  const LIST_GOALS_TOOL: ToolDefinition = {
+    name: "list-goals",
+    description: `Lists goals in the active workspace, filtered and sorted by their plan's front matter.
+
+      Plans can start with YAML front matter setting an owner, a priority
+      (${GOAL_PRIORITIES.join(", ")}), tags and a due date:
+
+        ---
+        owner: alice
+        priority: high
+        tags: [api, backend]
+        due: 2025-03-31
+        ---
+
+      By default goals are sorted by priority, then due date, then name.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          enum: [...GOAL_STATUSES],
+          description: "Only list goals with this status",
+        },
+        priority: {
+          type: "string",
+          enum: [...GOAL_PRIORITIES],
+          description: "Only list goals with this priority",
+        },
+        tag: {
+          type: "string",
+          description: "Only list goals with this tag",
+        },
+        owner: {
+          type: "string",
+          description: "Only list goals with this owner",
+        },
+        due_before: {
+          type: "string",
+          description:
+            "Only list goals due on or before this date (YYYY-MM-DD)",
+        },
+        overdue: {
+          type: "boolean",
+          description:
+            "Only list goals that are past their due date and not finished",
+        },
+        sort: {
+          type: "string",
+          enum: [...GOAL_SORT_KEYS],
+          description: "Order of the goals. Defaults to priority.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+    },
+  };
+
+  const LIST_GOAL_TEMPLATES_TOOL: ToolDefinition = {
+    name: "list-goal-templates",
+    description: `Lists the templates available to create-goal.
+
+      Templates come from built-ins, ~/.goals/templates/ and the workspace's .goals/templates/,
+      with workspace templates overriding global ones of the same name. Each template is a
+      markdown file whose {{variable}} placeholders are filled in when a goal is created.
+      {{goal}} and {{date}} are filled in automatically.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        workspace: WORKSPACE_PROPERTY,
       },
-      required: ["name", "plan"],
     },
   };
 
-  const SET_ACTIVE_GOAL_TOOL: Tool = {
+  const SET_ACTIVE_GOAL_TOOL: ToolDefinition = {
     name: "set-active-goal",
     description:
-      "Sets which goal is currently being worked on in the workspace",
+      "Sets which goal is currently being worked on in the workspace. Other sessions keep their own active goal; new sessions start with the one set last.",
     inputSchema: {
       type: "object",
       properties: {
@@ -138,138 +531,1375 @@ export function createServer(workspaceManager: WorkspaceManager): McpServer {
           type: "string",
           description: "Name of the goal to set as active",
         },
+        workspace: WORKSPACE_PROPERTY,
       },
       required: ["name"],
     },
   };
 
-  // Register tools
-  server.tool(
-    CREATE_WORKSPACE_TOOL.name,
-    {
-      name: z.string(),
-      path: z.string(),
-    },
-    async ({ name, path }) => {
-      const workspace = await workspaceManager.createWorkspace(name, path);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Workspace "${workspace.name}" created successfully`,
-          },
-        ],
-      };
-    },
-  );
-
-  server.tool(
-    INIT_WORKSPACE_TOOL.name,
-    {
-      name: z.string(),
-    },
-    async ({ name }) => {
-      const workspace = await workspaceManager.updateLastActive(name);
-      const goalManager = new GoalManager(workspace.path);
-      await goalManager.init();
+  const UPDATE_GOAL_PLAN_TOOL: ToolDefinition = {
+    name: "update-goal-plan",
+    description: `Updates a goal's plan.
 
-      const activeGoal = goalManager.getActiveGoal();
-      const goals = await goalManager.getGoalSummaries();
+      Either replaces the whole plan, or patches a single section identified by its heading.
+      When patching a section, you can replace its body, its heading line, or both. Headings
+      can be given with or without their leading #s, and status tags like [TODO] are ignored
+      when matching, so "Phase 3: Goal Persistence" matches "## [TODO] Phase 3: Goal Persistence".
 
-      let response = `Workspace "${workspace.name}" initialized at ${workspace.path}\n\n`;
+      Examples:
+        - Replace the implementation plan: section "## Implementation Plan", content "..."
+        - Mark a phase complete: section "Phase 3: Goal Persistence", heading "## [COMPLETE] Phase 3: Goal Persistence"`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal whose plan should be updated",
+        },
+        plan: {
+          type: "string",
+          description:
+            "Full markdown content to replace the plan with. Cannot be combined with section.",
+        },
+        section: {
+          type: "string",
+          description: "Heading of the section to patch",
+        },
+        content: {
+          type: "string",
+          description:
+            "New body for the section, excluding its heading. Subsections are replaced too.",
+        },
+        heading: {
+          type: "string",
+          description: "New heading line for the section, including its #s",
+        },
+        note: {
+          type: "string",
+          description:
+            "Why the plan is changing. Recorded in the plan history.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name"],
+    },
+  };
 
-      if (activeGoal) {
-        const activeGoalDescription =
-          await goalManager.getGoalDescription(activeGoal);
-        if (activeGoalDescription) {
-          response += `
-          <active_goal name="${activeGoal}">
-          ${activeGoalDescription}
-          </active_goal>`;
-        }
-      }
+  const DIFF_PLAN_VERSIONS_TOOL: ToolDefinition = {
+    name: "diff-plan-versions",
+    description: `Shows what changed between two versions of a goal's plan as a unified diff.
 
-      if (goals.length > 0) {
-        response += "\n<all_goals>\n";
-        goals.forEach(({ name, description }) => {
-          response += `\n- ${name}${description ? `: ${description.split("\n")[0]}` : ""}`;
-        });
-        response += "\n</all_goals>\n";
-      }
+      Every write to a plan is kept as a numbered version; goals://{name}/plan/history
+      lists them. By default the latest version is compared with the one before it.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal",
+        },
+        from: {
+          type: "number",
+          description:
+            "Version to compare from. Defaults to the version before to.",
+        },
+        to: {
+          type: "number",
+          description: "Version to compare to. Defaults to the latest version.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name"],
+    },
+  };
 
-      response +=
-        "\n\nPlease confirm if you want to continue with " +
-        (activeGoal ? `"${activeGoal}"` : "no active goal") +
-        " or select a different goal using the set-active-goal tool.";
+  const REVERT_PLAN_TOOL: ToolDefinition = {
+    name: "revert-plan",
+    description: `Restores an earlier version of a goal's plan.
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: response,
-          },
-        ],
-      };
+      The restored plan is written as a new version, so the revert can itself be
+      reverted. Use diff-plan-versions first to check what will change.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal",
+        },
+        version: {
+          type: "number",
+          description: "Version of the plan to restore",
+        },
+        note: {
+          type: "string",
+          description: "Why the plan is being reverted",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name", "version"],
     },
-  );
+  };
 
-  server.tool(
-    CREATE_GOAL_TOOL.name,
-    {
-      name: z.string(),
-      plan: z.string(),
+  const SET_GOAL_STATUS_TOOL: ToolDefinition = {
+    name: "set-goal-status",
+    description: `Changes the status of a goal.
+
+      Goals move through the statuses draft, active, blocked, paused, done and abandoned.
+      Every change is recorded with a timestamp and an optional reason. Goals that are
+      done or abandoned are hidden from init-workspace by default.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal",
+        },
+        status: {
+          type: "string",
+          enum: [...GOAL_STATUSES],
+          description: "New status for the goal",
+        },
+        reason: {
+          type: "string",
+          description:
+            "Why the status is changing, e.g. what the goal is blocked on",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name", "status"],
     },
-    async ({ name, plan }) => {
-      const workspace = workspaceManager.getActiveWorkspace();
-      if (!workspace) {
-        throw new Error(
-          "No workspace is currently active. Call init-workspace first.",
-        );
-      }
+  };
 
-      const goalManager = new GoalManager(workspace.path);
-      await goalManager.init();
-      await goalManager.createGoal(name, plan);
+  const GET_GOAL_PROGRESS_TOOL: ToolDefinition = {
+    name: "get-goal-progress",
+    description: `Reports progress on a goal, parsed from its plan.
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Goal "${name}" created successfully`,
-          },
-        ],
-      };
+      Phases are headings tagged with a status, e.g. "## [COMPLETE] Phase 1: Bootstrap" or
+      "## [TODO] Phase 3: Goal Persistence". Tasks are markdown checkboxes ("- [ ]" / "- [x]")
+      and belong to the phase they appear under. Returns completion percentages for
+      each phase and for the goal overall.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description:
+            'Name of the goal. Use "workspace:goal" for a goal in another workspace.',
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name"],
+    },
+  };
+
+  const COMPLETE_TASK_TOOL: ToolDefinition = {
+    name: "complete-task",
+    description: `Checks off a task in a goal's plan.
+
+      The task can be identified by its text (or a unique part of it), or by its
+      1-based position among all checkboxes in the plan.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal",
+        },
+        task: {
+          type: "string",
+          description: "Text or 1-based number of the task to check off",
+        },
+        done: {
+          type: "boolean",
+          description:
+            "Set to false to uncheck the task instead. Defaults to true.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name", "task"],
+    },
+  };
+
+  const SET_GOAL_DEPENDENCIES_TOOL: ToolDefinition = {
+    name: "set-goal-dependencies",
+    description: `Sets a goal's parent goal and the goals it depends on.
+
+      Sub-goals are listed beneath their parent by init-workspace. A goal whose
+      dependencies are not all done is flagged as blocked, so work should start with
+      its dependencies. Cycles are rejected.
+
+      A dependency on a goal in another workspace is written as "workspace:goal".
+      The parent must be in the same workspace.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal",
+        },
+        parent: {
+          type: ["string", "null"],
+          description: "Name of the parent goal, or null to make it top-level",
+        },
+        depends_on: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Names of goals that must be done first. Replaces the existing list.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name"],
+    },
+  };
+
+  const GET_BRIEFING_TOOL: ToolDefinition = {
+    name: "get-briefing",
+    description: `Returns a briefing for resuming work on a goal in one document.
+
+      The briefing combines the goal's status, current phase, last session notes, open
+      tasks, plan and recent learnings. When it would exceed the budget, the plan and
+      learnings are truncated or left out before the current phase and last session.
+      The default budget is ${DEFAULT_BRIEFING_CHARS} characters.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        goal: {
+          type: "string",
+          description: "Name of the goal. Defaults to the active goal.",
+        },
+        max_chars: {
+          type: "number",
+          description: "Maximum length of the briefing in characters",
+        },
+        max_tokens: {
+          type: "number",
+          description:
+            "Maximum length of the briefing in tokens, estimated at four characters per token",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+    },
+  };
+
+  const START_SESSION_TOOL: ToolDefinition = {
+    name: "start-session",
+    description: `Starts a work session on a goal and returns where the last session left off.
+
+      Call this when you begin working on a goal, and end-session when you stop, so the
+      next session can pick up from the recorded next steps.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        goal: {
+          type: "string",
+          description: "Name of the goal. Defaults to the active goal.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+    },
+  };
+
+  const END_SESSION_TOOL: ToolDefinition = {
+    name: "end-session",
+    description: `Ends the open work session on a goal and records it in the goal's journal.
+
+      The next steps are shown by init-workspace and start-session when work on the
+      goal resumes, so make them specific enough to continue without other context.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        summary: {
+          type: "string",
+          description: "What was accomplished in this session",
+        },
+        files_touched: {
+          type: "array",
+          items: { type: "string" },
+          description: "Files created or changed during the session",
+        },
+        next_steps: {
+          type: "array",
+          items: { type: "string" },
+          description: "What should be done next",
+        },
+        goal: {
+          type: "string",
+          description: "Name of the goal. Defaults to the active goal.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["summary"],
+    },
+  };
+
+  const ARCHIVE_GOAL_TOOL: ToolDefinition = {
+    name: "archive-goal",
+    description: `Archives a goal that no longer needs attention.
+
+      Archived goals are hidden from init-workspace and goals://list, but can still
+      be read and are brought back with restore-goal. If the goal is active, no goal
+      is active afterwards.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal to archive",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name"],
     },
+  };
+
+  const RESTORE_GOAL_TOOL: ToolDefinition = {
+    name: "restore-goal",
+    description: `Restores an archived goal, or a deleted goal that is still in the trash.
+
+      If a goal of that name was deleted more than once, the most recently deleted
+      one is restored unless deleted_at picks another.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal to restore",
+        },
+        deleted_at: {
+          type: "string",
+          description:
+            "When the goal to restore was deleted, as reported by delete-goal",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name"],
+    },
+  };
+
+  const DELETE_GOAL_TOOL: ToolDefinition = {
+    name: "delete-goal",
+    description: `Deletes a goal, including an archived one, by moving it to the trash.
+
+      Deleted goals can be brought back with restore-goal for ${TRASH_RETENTION_DAYS} days,
+      after which they are removed for good. Other goals stop depending on the deleted
+      goal and its sub-goals become top-level goals.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal to delete",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name"],
+    },
+  };
+
+  const COPY_GOAL_TOOL: ToolDefinition = {
+    name: "copy-goal",
+    description: `Copies a goal from the active workspace to another workspace.
+
+      The plan, status and learnings are copied. In the target workspace the goal
+      has no parent, and its dependencies refer back to goals in the source workspace
+      as "workspace:goal". Copying within the active workspace requires new_name.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal in the active workspace",
+        },
+        to_workspace: {
+          type: "string",
+          description: "Name of the workspace to copy the goal to",
+        },
+        new_name: {
+          type: "string",
+          description: "Name for the copy. Defaults to the goal's name.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name", "to_workspace"],
+    },
+  };
+
+  const MOVE_GOAL_TOOL: ToolDefinition = {
+    name: "move-goal",
+    description: `Moves a goal from the active workspace to another workspace.
+
+      Goals left behind that depended on it are updated to depend on
+      "workspace:goal" instead, and its sub-goals become top-level goals. If it was
+      the active goal, no goal is active afterwards.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the goal in the active workspace",
+        },
+        to_workspace: {
+          type: "string",
+          description: "Name of the workspace to move the goal to",
+        },
+        new_name: {
+          type: "string",
+          description:
+            "Name for the goal in the target workspace. Defaults to its current name.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["name", "to_workspace"],
+    },
+  };
+
+  const SEARCH_TOOL: ToolDefinition = {
+    name: "search",
+    description: `Searches plans and learnings across the active workspace.
+
+      Use this to find prior decisions before making new ones. All words in the query
+      must appear within the same section of a document. Results are ranked by relevance
+      and include the file and line of each match.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Words or phrase to search for (case-insensitive)",
+        },
+        goal: {
+          type: "string",
+          description:
+            "Only search this goal's plan and learnings. Omit to search everything.",
+        },
+        since: {
+          type: "string",
+          description:
+            "Only include documents written on or after this ISO date",
+        },
+        until: {
+          type: "string",
+          description:
+            "Only include documents written on or before this ISO date",
+        },
+        section: {
+          type: "string",
+          description:
+            'Only match within sections whose heading contains this text, e.g. "Rationale"',
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of results. Defaults to 20.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["query"],
+    },
+  };
+
+  const CREATE_LEARNING_TOOL: ToolDefinition = {
+    name: "create-learning",
+    description: `Records a learning in the current workspace.
+
+      Learnings are stored as timestamped markdown files, either in the workspace-level
+      learnings directory or, when a goal is given, in that goal's learnings directory.
+      ${LEARNINGS_INSTRUCTIONS}`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        title: {
+          type: "string",
+          description: "Brief title of the learning",
+        },
+        context: {
+          type: "string",
+          description: "What led to this learning/decision",
+        },
+        details: {
+          type: "string",
+          description: "The main content of the learning/decision",
+        },
+        rationale: {
+          type: "string",
+          description: "Why this approach was chosen",
+        },
+        alternatives: {
+          type: "string",
+          description:
+            "What other approaches were considered and why they weren't chosen",
+        },
+        references: {
+          type: "string",
+          description: "Any relevant documentation links or references",
+        },
+        goal: {
+          type: "string",
+          description:
+            "Name of the goal to record the learning against. Omit to record a workspace-level learning.",
+        },
+        workspace: WORKSPACE_PROPERTY,
+      },
+      required: ["title", "context", "details", "rationale"],
+    },
+  };
+
+  // The active workspace and, for each workspace, the active goal of this
+  // client's session. Both start from the values last persisted by any
+  // client, but later choices made in other sessions do not change them.
+  let sessionWorkspace: string | null = null;
+  const sessionGoals = new Map<string, string | null>();
+
+  async function getActiveWorkspace(): Promise<Workspace | null> {
+    sessionWorkspace ??=
+      (await workspaceManager.getActiveWorkspace())?.name ?? null;
+    return (
+      (await workspaceManager.getAll()).find(
+        (w) => w.name === sessionWorkspace,
+      ) ?? null
+    );
+  }
+
+  // Directories the client has shared as MCP roots, if it supports them
+  async function getClientRootPaths(): Promise<string[]> {
+    if (!server.server.getClientCapabilities()?.roots) {
+      return [];
+    }
+
+    try {
+      const { roots } = await server.server.listRoots();
+      return roots
+        .filter((root) => root.uri.startsWith("file://"))
+        .map((root) => fileURLToPath(root.uri));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  function getTemplateManager(workspace: Workspace | null): TemplateManager {
+    return new TemplateManager(workspaceManager.templatesDir, workspace?.path);
+  }
+
+  const goalResolver = createGoalResolver(workspaceManager);
+
+  async function openGoalManager(workspace: Workspace): Promise<GoalManager> {
+    const goalManager = new GoalManager(workspace.path, goalResolver);
+    await goalManager.init();
+    if (!sessionGoals.has(workspace.name)) {
+      sessionGoals.set(workspace.name, goalManager.getActiveGoal());
+    }
+    goalManager.overrideActiveGoal(sessionGoals.get(workspace.name) ?? null);
+    return goalManager;
+  }
+
+  function getGoalOrActive(goalManager: GoalManager, goal?: string): string {
+    const name = goal ?? goalManager.getActiveGoal();
+    if (!name) {
+      throw new GoalsError(
+        "NO_ACTIVE_GOAL",
+        "No goal given and no goal is active. Call set-active-goal first.",
+      );
+    }
+    return name;
+  }
+
+  // The named workspace, or the session's active one if no name is given
+  async function getWorkspace(name?: string): Promise<Workspace> {
+    if (name !== undefined) {
+      return workspaceManager.findWorkspace(name);
+    }
+
+    const workspace = await getActiveWorkspace();
+    if (!workspace) {
+      throw new GoalsError(
+        "NO_ACTIVE_WORKSPACE",
+        "No workspace is currently active. Call init-workspace first.",
+      );
+    }
+    return workspace;
+  }
+
+  async function getGoalManager(workspace?: string): Promise<GoalManager> {
+    return openGoalManager(await getWorkspace(workspace));
+  }
+
+  // Finds the workspace holding a goal referenced by "workspace:goal", or by
+  // its name alone in the given or active workspace
+  async function resolveGoal(
+    reference: string,
+    defaultWorkspace?: string,
+  ): Promise<{ goalManager: GoalManager; name: string }> {
+    const { workspace, goal } = parseGoalReference(reference);
+    return {
+      goalManager: await getGoalManager(workspace ?? defaultWorkspace),
+      name: goal,
+    };
+  }
+
+  async function getLatestVersion(
+    goalManager: GoalManager,
+    name: string,
+  ): Promise<number> {
+    return (await goalManager.listPlanVersions(name)).length;
+  }
+
+  // Register tools
+  server.tool(
+    CREATE_WORKSPACE_TOOL.name,
+    CREATE_WORKSPACE_TOOL.description,
+    describeShape(CREATE_WORKSPACE_TOOL, {
+      name: z.string(),
+      path: z.string(),
+    }),
+    handleErrors(async ({ name, path }) => {
+      const workspace = await workspaceManager.createWorkspace(name, path);
+      return toolResult(`Workspace "${workspace.name}" created successfully`, {
+        workspace,
+      });
+    }),
+  );
+
+  server.tool(
+    DELETE_WORKSPACE_TOOL.name,
+    DELETE_WORKSPACE_TOOL.description,
+    describeShape(DELETE_WORKSPACE_TOOL, {
+      name: z.string(),
+    }),
+    handleErrors(async ({ name }) => {
+      const workspace = await workspaceManager.deleteWorkspace(name);
+      return toolResult(
+        `Workspace "${workspace.name}" removed. Files at ${workspace.path} were left in place.`,
+        { workspace },
+      );
+    }),
+  );
+
+  server.tool(
+    RENAME_WORKSPACE_TOOL.name,
+    RENAME_WORKSPACE_TOOL.description,
+    describeShape(RENAME_WORKSPACE_TOOL, {
+      name: z.string(),
+      new_name: z.string(),
+    }),
+    handleErrors(async ({ name, new_name }) => {
+      const workspace = await workspaceManager.renameWorkspace(name, new_name);
+      await renameWorkspaceReferences(workspaceManager, name, workspace.name);
+      if (sessionWorkspace === name) {
+        sessionWorkspace = workspace.name;
+      }
+      if (sessionGoals.has(name)) {
+        sessionGoals.set(workspace.name, sessionGoals.get(name)!);
+        sessionGoals.delete(name);
+      }
+      return toolResult(`Workspace "${name}" renamed to "${workspace.name}"`, {
+        workspace,
+        previous_name: name,
+      });
+    }),
+  );
+
+  server.tool(
+    MOVE_WORKSPACE_TOOL.name,
+    MOVE_WORKSPACE_TOOL.description,
+    describeShape(MOVE_WORKSPACE_TOOL, {
+      name: z.string(),
+      path: z.string(),
+    }),
+    handleErrors(async ({ name, path }) => {
+      const workspace = await workspaceManager.moveWorkspace(name, path);
+      return toolResult(
+        `Workspace "${workspace.name}" now points to ${workspace.path}`,
+        { workspace },
+      );
+    }),
+  );
+
+  server.tool(
+    INIT_WORKSPACE_TOOL.name,
+    INIT_WORKSPACE_TOOL.description,
+    describeShape(INIT_WORKSPACE_TOOL, {
+      name: z.string().optional(),
+      include_finished: z.boolean().optional(),
+      include_archived: z.boolean().optional(),
+    }),
+    handleErrors(async ({ name, include_finished, include_archived }) => {
+      let response = "";
+      let registered = false;
+      if (!name) {
+        const found = await workspaceManager.discoverWorkspace([
+          ...(await getClientRootPaths()),
+          process.cwd(),
+        ]);
+        if (!found) {
+          throw new GoalsError(
+            "WORKSPACE_NOT_FOUND",
+            "No workspace name given and none could be discovered. Call create-workspace first.",
+          );
+        }
+        name = found.workspace.name;
+        registered = found.created;
+        if (registered) {
+          response += `Discovered and registered workspace "${name}"\n`;
+        }
+      }
+
+      const workspace = await workspaceManager.updateLastActive(name);
+      sessionWorkspace = workspace.name;
+      const goalManager = await openGoalManager(workspace);
+
+      const activeGoal = goalManager.getActiveGoal();
+      const goals = await goalManager.getGoalSummaries();
+      const lastSession = activeGoal
+        ? await goalManager.getLastSession(activeGoal)
+        : null;
+
+      response += `Workspace "${workspace.name}" initialized at ${workspace.path}\n\n`;
+
+      if (activeGoal) {
+        const activeGoalDescription =
+          await goalManager.getGoalDescription(activeGoal);
+        if (activeGoalDescription) {
+          response += `
+          <active_goal name="${activeGoal}">
+          ${activeGoalDescription}
+          </active_goal>`;
+        }
+
+        if (lastSession) {
+          response += `\n${formatLastSession(lastSession)}\n`;
+        }
+      }
+
+      const isVisible = ({ name, status }: GoalSummary) =>
+        include_finished ||
+        name === activeGoal ||
+        !FINISHED_GOAL_STATUSES.includes(status);
+      const visibleGoals = goals.filter(isVisible);
+      const hiddenGoals = goals.length - visibleGoals.length;
+
+      const overdueGoals = goals.filter((goal) => goal.overdue);
+      if (overdueGoals.length > 0) {
+        response += `\nOVERDUE: ${overdueGoals.map((goal) => `"${goal.name}" (due ${goal.due})`).join(", ")}. Check whether these are still on track.\n`;
+      }
+
+      if (visibleGoals.length > 0) {
+        const tree = await goalManager.getGoalTree();
+        response += "\n<all_goals>\n";
+        response += renderGoalTree(tree, isVisible);
+        response += "\n</all_goals>\n";
+      }
+
+      if (hiddenGoals > 0) {
+        response += `\n${hiddenGoals} finished goal(s) hidden. Call init-workspace with include_finished to list them.\n`;
+      }
+
+      const archivedGoals = await goalManager.listArchivedGoals();
+      if (include_archived && archivedGoals.length > 0) {
+        response += "\n<archived_goals>\n";
+        response += archivedGoals
+          .map((goal) => `- ${formatGoalSummary(goal)}`)
+          .join("\n");
+        response += "\n</archived_goals>\n";
+      } else if (archivedGoals.length > 0) {
+        response += `\n${archivedGoals.length} archived goal(s) hidden. Call init-workspace with include_archived to list them.\n`;
+      }
+
+      response +=
+        "\n\nPlease confirm if you want to continue with " +
+        (activeGoal ? `"${activeGoal}"` : "no active goal") +
+        " or select a different goal using the set-active-goal tool.";
+
+      return toolResult(response, {
+        workspace,
+        registered,
+        active_goal: activeGoal,
+        last_session: lastSession,
+        goals: visibleGoals,
+        overdue: overdueGoals.map((goal) => goal.name),
+        hidden_finished: hiddenGoals,
+        archived: include_archived ? archivedGoals : [],
+        hidden_archived: include_archived ? 0 : archivedGoals.length,
+      });
+    }),
+  );
+
+  server.tool(
+    CREATE_GOAL_TOOL.name,
+    CREATE_GOAL_TOOL.description,
+    describeShape(CREATE_GOAL_TOOL, {
+      name: z.string(),
+      plan: z.string().optional(),
+      template: z.string().optional(),
+      variables: z.record(z.string()).optional(),
+      parent: z.string().optional(),
+      depends_on: z.array(z.string()).optional(),
+      status: z.enum(INITIAL_GOAL_STATUSES).optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(
+      async ({
+        workspace,
+        name,
+        plan,
+        template,
+        variables,
+        parent,
+        depends_on,
+        status,
+      }) => {
+        if ((plan === undefined) === (template === undefined)) {
+          throw new GoalsError(
+            "INVALID_ARGUMENTS",
+            "Provide either plan or template",
+          );
+        }
+
+        const target = await getWorkspace(workspace);
+        const goalManager = await openGoalManager(target);
+        const content =
+          plan ??
+          (await getTemplateManager(target).render(
+            template!,
+            variables ?? {},
+            toGoalName(name),
+          ));
+        const goal = await goalManager.createGoal(name, content, {
+          parent,
+          depends_on,
+          status,
+        });
+
+        return toolResult(
+          goal.name === name
+            ? `Goal "${name}" created successfully`
+            : `Goal "${goal.name}" created successfully with the title "${goal.title}"`,
+          {
+            goal: goal.name,
+            title: goal.title ?? null,
+            status: status ?? "active",
+            parent: goal.parent ?? null,
+            depends_on: goal.depends_on ?? [],
+          },
+        );
+      },
+    ),
+  );
+
+  server.tool(
+    LIST_GOALS_TOOL.name,
+    LIST_GOALS_TOOL.description,
+    describeShape(LIST_GOALS_TOOL, {
+      ...GOAL_QUERY_SHAPE,
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, ...query }) => {
+      const goalManager = await getGoalManager(workspace);
+      const goals = await goalManager.getGoalSummaries(query);
+
+      return toolResult(
+        goals.length > 0
+          ? goals.map((goal) => `- ${formatGoalSummary(goal)}`).join("\n")
+          : "No goals match",
+        { goals },
+      );
+    }),
+  );
+
+  server.tool(
+    LIST_GOAL_TEMPLATES_TOOL.name,
+    LIST_GOAL_TEMPLATES_TOOL.description,
+    describeShape(LIST_GOAL_TEMPLATES_TOOL, {
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace }) => {
+      const templates = await getTemplateManager(
+        workspace === undefined
+          ? await getActiveWorkspace()
+          : await getWorkspace(workspace),
+      ).listTemplates();
+
+      return toolResult(
+        templates
+          .map(
+            ({ name, source, description, variables }) =>
+              `- ${name} (${source}): ${description}\n  variables: ${variables.length > 0 ? variables.join(", ") : "none"}`,
+          )
+          .join("\n"),
+        { templates },
+      );
+    }),
+  );
+
+  server.tool(
+    SET_ACTIVE_GOAL_TOOL.name,
+    SET_ACTIVE_GOAL_TOOL.description,
+    describeShape(SET_ACTIVE_GOAL_TOOL, {
+      name: z.string(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name }) => {
+      const target = await getWorkspace(workspace);
+      const goalManager = await openGoalManager(target);
+      await goalManager.setActiveGoal(name);
+      sessionGoals.set(target.name, name);
+
+      const description = await goalManager.getGoalDescription(name);
+
+      return toolResult(
+        `Now working on goal: ${name}\n\n${description || ""}\n\n${LEARNINGS_INSTRUCTIONS}`,
+        { active_goal: name, description },
+      );
+    }),
+  );
+
+  server.tool(
+    UPDATE_GOAL_PLAN_TOOL.name,
+    UPDATE_GOAL_PLAN_TOOL.description,
+    describeShape(UPDATE_GOAL_PLAN_TOOL, {
+      name: z.string(),
+      plan: z.string().optional(),
+      section: z.string().optional(),
+      content: z.string().optional(),
+      heading: z.string().optional(),
+      note: z.string().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(
+      async ({ workspace, name, plan, section, content, heading, note }) => {
+        const goalManager = await getGoalManager(workspace);
+
+        if (plan !== undefined) {
+          if (section !== undefined) {
+            throw new GoalsError(
+              "INVALID_ARGUMENTS",
+              "Provide either plan or section, not both",
+            );
+          }
+          await goalManager.updatePlan(name, plan, note);
+          return toolResult(`Plan for goal "${name}" replaced`, {
+            goal: name,
+            section: null,
+            version: await getLatestVersion(goalManager, name),
+          });
+        }
+
+        if (section === undefined) {
+          throw new GoalsError(
+            "INVALID_ARGUMENTS",
+            "Provide either plan or section to update",
+          );
+        }
+        if (content === undefined && heading === undefined) {
+          throw new GoalsError(
+            "INVALID_ARGUMENTS",
+            "Provide content and/or heading for the section",
+          );
+        }
+
+        await goalManager.updatePlanSection(
+          name,
+          section,
+          { content, heading },
+          note,
+        );
+        return toolResult(`Section "${section}" of goal "${name}" updated`, {
+          goal: name,
+          section,
+          version: await getLatestVersion(goalManager, name),
+        });
+      },
+    ),
+  );
+
+  server.tool(
+    DIFF_PLAN_VERSIONS_TOOL.name,
+    DIFF_PLAN_VERSIONS_TOOL.description,
+    describeShape(DIFF_PLAN_VERSIONS_TOOL, {
+      name: z.string(),
+      from: z.number().int().optional(),
+      to: z.number().int().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name, from, to }) => {
+      const goalManager = await getGoalManager(workspace);
+      const versions = await goalManager.listPlanVersions(name);
+      const toVersion = to ?? versions.length;
+      const fromVersion = from ?? toVersion - 1;
+      if (fromVersion < 1) {
+        throw new GoalsError(
+          "VERSION_NOT_FOUND",
+          `Goal "${name}" has no earlier plan version to compare`,
+        );
+      }
+
+      const diff = await goalManager.diffPlanVersions(
+        name,
+        fromVersion,
+        toVersion,
+      );
+      return toolResult(
+        diff ||
+          `Versions ${fromVersion} and ${toVersion} of goal "${name}" are identical`,
+        { goal: name, from: fromVersion, to: toVersion, diff },
+      );
+    }),
+  );
+
+  server.tool(
+    REVERT_PLAN_TOOL.name,
+    REVERT_PLAN_TOOL.description,
+    describeShape(REVERT_PLAN_TOOL, {
+      name: z.string(),
+      version: z.number().int(),
+      note: z.string().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name, version, note }) => {
+      const goalManager = await getGoalManager(workspace);
+      await goalManager.revertPlan(name, version, note);
+      const versions = await goalManager.listPlanVersions(name);
+
+      return toolResult(
+        `Plan for goal "${name}" reverted to version ${version} (now version ${versions.length})`,
+        { goal: name, reverted_to: version, version: versions.length },
+      );
+    }),
+  );
+
+  server.tool(
+    SET_GOAL_STATUS_TOOL.name,
+    SET_GOAL_STATUS_TOOL.description,
+    describeShape(SET_GOAL_STATUS_TOOL, {
+      name: z.string(),
+      status: z.enum(GOAL_STATUSES),
+      reason: z.string().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name, status, reason }) => {
+      const goalManager = await getGoalManager(workspace);
+      const updated = await goalManager.setGoalStatus(name, status, reason);
+
+      return toolResult(
+        `Goal "${name}" is now ${status}${reason ? `: ${reason}` : ""}`,
+        { goal: name, status: updated },
+      );
+    }),
+  );
+
+  server.tool(
+    GET_GOAL_PROGRESS_TOOL.name,
+    GET_GOAL_PROGRESS_TOOL.description,
+    describeShape(GET_GOAL_PROGRESS_TOOL, {
+      name: z.string(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ name: reference, workspace }) => {
+      const { goalManager, name } = await resolveGoal(reference, workspace);
+      const progress = await goalManager.getGoalProgress(name);
+
+      let response = `Goal "${name}" is ${progress.percent_complete}% complete (${progress.completed_tasks}/${progress.total_tasks} tasks)\n`;
+      progress.phases.forEach((phase) => {
+        response += `\n- [${phase.status}] ${phase.title}: ${phase.percent_complete}%`;
+      });
+      const openTasks = progress.tasks.filter((task) => !task.done);
+      if (openTasks.length > 0) {
+        response += "\n\nOpen tasks:";
+        openTasks.forEach((task) => {
+          response += `\n- ${task.text}${task.phase ? ` (${task.phase})` : ""}`;
+        });
+      }
+
+      return toolResult(response, { goal: name, progress });
+    }),
+  );
+
+  server.tool(
+    COMPLETE_TASK_TOOL.name,
+    COMPLETE_TASK_TOOL.description,
+    describeShape(COMPLETE_TASK_TOOL, {
+      name: z.string(),
+      task: z.string(),
+      done: z.boolean().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name, task, done }) => {
+      const goalManager = await getGoalManager(workspace);
+      const updated = await goalManager.completeTask(name, task, done ?? true);
+      const progress = await goalManager.getGoalProgress(name);
+
+      return toolResult(
+        `Task "${updated.text}" marked as ${updated.done ? "done" : "not done"}. Goal "${name}" is now ${progress.percent_complete}% complete.`,
+        { goal: name, task: updated, progress },
+      );
+    }),
+  );
+
+  server.tool(
+    SET_GOAL_DEPENDENCIES_TOOL.name,
+    SET_GOAL_DEPENDENCIES_TOOL.description,
+    describeShape(SET_GOAL_DEPENDENCIES_TOOL, {
+      name: z.string(),
+      parent: z.string().nullable().optional(),
+      depends_on: z.array(z.string()).optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name, parent, depends_on }) => {
+      const goalManager = await getGoalManager(workspace);
+      const goal = await goalManager.setGoalRelations(name, {
+        parent,
+        depends_on,
+      });
+
+      const dependencies = goal.depends_on ?? [];
+      return toolResult(
+        `Goal "${name}" ${goal.parent ? `is a sub-goal of "${goal.parent}"` : "is a top-level goal"}` +
+          (dependencies.length > 0
+            ? ` and depends on ${dependencies.map((d) => `"${d}"`).join(", ")}`
+            : " with no dependencies"),
+        { goal: name, parent: goal.parent ?? null, depends_on: dependencies },
+      );
+    }),
   );
 
   server.tool(
-    SET_ACTIVE_GOAL_TOOL.name,
-    {
-      name: z.string(),
-    },
-    async ({ name }) => {
-      const workspace = workspaceManager.getActiveWorkspace();
-      if (!workspace) {
-        throw new Error(
-          "No workspace is currently active. Call init-workspace first.",
-        );
+    GET_BRIEFING_TOOL.name,
+    GET_BRIEFING_TOOL.description,
+    describeShape(GET_BRIEFING_TOOL, {
+      goal: z.string().optional(),
+      max_chars: z.number().int().positive().optional(),
+      max_tokens: z.number().int().positive().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, goal, max_chars, max_tokens }) => {
+      const goalManager = await getGoalManager(workspace);
+      const name = getGoalOrActive(goalManager, goal);
+      const briefing = await goalManager.getBriefing(name, {
+        maxChars: max_chars,
+        maxTokens: max_tokens,
+      });
+
+      return toolResult(briefing.text, {
+        goal: name,
+        truncated: briefing.truncated,
+        omitted: briefing.omitted,
+      });
+    }),
+  );
+
+  server.tool(
+    START_SESSION_TOOL.name,
+    START_SESSION_TOOL.description,
+    describeShape(START_SESSION_TOOL, {
+      goal: z.string().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, goal }) => {
+      const goalManager = await getGoalManager(workspace);
+      const name = getGoalOrActive(goalManager, goal);
+      const lastSession = await goalManager.getLastSession(name);
+      const session = await goalManager.startSession(name);
+
+      let response = `Session ${session.session} on goal "${name}" started at ${session.started_at}`;
+      if (lastSession) {
+        response += `\n\n${formatLastSession(lastSession)}`;
       }
+      return toolResult(response, {
+        goal: name,
+        session,
+        last_session: lastSession,
+      });
+    }),
+  );
 
-      const goalManager = new GoalManager(workspace.path);
-      await goalManager.init();
-      await goalManager.setActiveGoal(name);
+  server.tool(
+    END_SESSION_TOOL.name,
+    END_SESSION_TOOL.description,
+    describeShape(END_SESSION_TOOL, {
+      summary: z.string(),
+      files_touched: z.array(z.string()).optional(),
+      next_steps: z.array(z.string()).optional(),
+      goal: z.string().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(
+      async ({ workspace, summary, files_touched, next_steps, goal }) => {
+        const goalManager = await getGoalManager(workspace);
+        const name = getGoalOrActive(goalManager, goal);
+        const session = await goalManager.endSession(name, {
+          summary,
+          files_touched,
+          next_steps,
+        });
 
-      const description = await goalManager.getGoalDescription(name);
+        return toolResult(
+          `Session ${session.session} on goal "${name}" ended at ${session.ended_at} and recorded in its journal`,
+          { goal: name, session },
+        );
+      },
+    ),
+  );
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Now working on goal: ${name}\n\n${description || ""}`,
-          },
-        ],
-      };
-    },
+  server.tool(
+    ARCHIVE_GOAL_TOOL.name,
+    ARCHIVE_GOAL_TOOL.description,
+    describeShape(ARCHIVE_GOAL_TOOL, {
+      name: z.string(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name }) => {
+      const goalManager = await getGoalManager(workspace);
+      const goal = await goalManager.archiveGoal(name);
+
+      return toolResult(
+        `Goal "${name}" archived. Use restore-goal to bring it back.`,
+        { goal: name, archived_at: goal.archived_at },
+      );
+    }),
+  );
+
+  server.tool(
+    RESTORE_GOAL_TOOL.name,
+    RESTORE_GOAL_TOOL.description,
+    describeShape(RESTORE_GOAL_TOOL, {
+      name: z.string(),
+      deleted_at: z.string().datetime().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name, deleted_at }) => {
+      const goalManager = await getGoalManager(workspace);
+      await goalManager.restoreGoal(name, deleted_at);
+
+      return toolResult(`Goal "${name}" restored`, { goal: name });
+    }),
+  );
+
+  server.tool(
+    DELETE_GOAL_TOOL.name,
+    DELETE_GOAL_TOOL.description,
+    describeShape(DELETE_GOAL_TOOL, {
+      name: z.string(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name }) => {
+      const goalManager = await getGoalManager(workspace);
+      const deleted = await goalManager.deleteGoal(name);
+
+      return toolResult(
+        `Goal "${name}" moved to the trash. It can be restored with restore-goal until ${deleted.expires_at}.`,
+        {
+          goal: name,
+          deleted_at: deleted.deleted_at,
+          expires_at: deleted.expires_at,
+        },
+      );
+    }),
+  );
+
+  server.tool(
+    COPY_GOAL_TOOL.name,
+    COPY_GOAL_TOOL.description,
+    describeShape(COPY_GOAL_TOOL, {
+      name: z.string(),
+      to_workspace: z.string(),
+      new_name: z.string().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name, to_workspace, new_name }) => {
+      const goalManager = await getGoalManager(workspace);
+      const source = await getWorkspace(workspace);
+      const target = await workspaceManager.findWorkspace(to_workspace);
+      const goal = await goalManager.copyGoalTo(
+        name,
+        await openGoalManager(target),
+        { targetName: new_name, sourceWorkspace: source.name },
+      );
+
+      return toolResult(
+        `Copied goal "${name}" to "${target.name}:${goal.name}"`,
+        { goal: name, to_workspace: target.name, new_name: goal.name },
+      );
+    }),
+  );
+
+  server.tool(
+    MOVE_GOAL_TOOL.name,
+    MOVE_GOAL_TOOL.description,
+    describeShape(MOVE_GOAL_TOOL, {
+      name: z.string(),
+      to_workspace: z.string(),
+      new_name: z.string().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, name, to_workspace, new_name }) => {
+      const goalManager = await getGoalManager(workspace);
+      const source = await getWorkspace(workspace);
+      const target = await workspaceManager.findWorkspace(to_workspace);
+      const goal = await goalManager.moveGoalTo(
+        name,
+        await openGoalManager(target),
+        target.name,
+        { targetName: new_name, sourceWorkspace: source.name },
+      );
+
+      return toolResult(
+        `Moved goal "${name}" to "${target.name}:${goal.name}"`,
+        { goal: name, to_workspace: target.name, new_name: goal.name },
+      );
+    }),
+  );
+
+  server.tool(
+    SEARCH_TOOL.name,
+    SEARCH_TOOL.description,
+    describeShape(SEARCH_TOOL, {
+      query: z.string(),
+      goal: z.string().optional(),
+      since: ISO_DATE.optional(),
+      until: ISO_DATE.optional(),
+      section: z.string().optional(),
+      limit: z.number().int().positive().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, query, ...options }) => {
+      const goalManager = await getGoalManager(workspace);
+      const results = await goalManager.search(query, options);
+
+      return toolResult(formatSearchResults(query, results), {
+        query,
+        results,
+      });
+    }),
+  );
+
+  server.tool(
+    CREATE_LEARNING_TOOL.name,
+    CREATE_LEARNING_TOOL.description,
+    describeShape(CREATE_LEARNING_TOOL, {
+      title: z.string(),
+      context: z.string(),
+      details: z.string(),
+      rationale: z.string(),
+      alternatives: z.string().optional(),
+      references: z.string().optional(),
+      goal: z.string().optional(),
+      workspace: z.string().optional(),
+    }),
+    handleErrors(async ({ workspace, goal, ...learning }) => {
+      const goalManager = await getGoalManager(workspace);
+      const created = await goalManager.createLearning(
+        {
+          ...learning,
+          alternatives: learning.alternatives ?? "",
+          references: learning.references ?? "",
+        },
+        goal,
+      );
+
+      return toolResult(
+        `Learning "${created.title}" recorded ${goal ? `for goal "${goal}"` : "for the workspace"} (${created.filename})`,
+        { goal: goal ?? null, learning: created },
+      );
+    }),
   );
 
   server.resource(
@@ -277,7 +1907,8 @@ export function createServer(workspaceManager: WorkspaceManager): McpServer {
     "workspaces://list",
     {
       description: `Lists all available workspaces in descending order of last activity.
-        Each workspace entry includes its name, filesystem path, and last active timestamp.`,
+        Each workspace entry includes its name, filesystem path, and last active timestamp.
+        Workspaces whose path no longer exists are flagged as missing.`,
       examples: [
         {
           description: "List all workspaces",
@@ -289,14 +1920,537 @@ export function createServer(workspaceManager: WorkspaceManager): McpServer {
       contents: [
         {
           uri: uri.href,
-          text: workspaceManager
-            .getAll()
-            .map((w) => `${w.name}: ${w.path} (${w.last_active})`)
+          text: (await workspaceManager.checkHealth())
+            .map(
+              (w) =>
+                `${w.name}: ${w.path} (${w.last_active})${w.exists ? "" : " [MISSING: path does not exist]"}`,
+            )
             .join("\n"),
         },
       ],
     }),
   );
 
+  async function listGoalResources(
+    suffix: string,
+    describe: (goal: string) => string,
+  ): Promise<{ resources: Resource[] }> {
+    if (!(await getActiveWorkspace())) {
+      return { resources: [] };
+    }
+
+    const goalManager = await getGoalManager();
+    const goals = await goalManager.listGoals();
+    return {
+      resources: goals.map((goal) => ({
+        uri: `goals://${encodeURIComponent(goal)}${suffix}`,
+        name: `${goal}${suffix}`,
+        description: describe(goal),
+      })),
+    };
+  }
+
+  function goalNameFromVariables(variables: Variables): string {
+    const name = Array.isArray(variables.name)
+      ? variables.name[0]
+      : variables.name;
+    return decodeURIComponent(name);
+  }
+
+  async function readGoalList(uri: URL) {
+    const { archived: includeArchived, ...query } = GOAL_LIST_PARAMS.parse(
+      Object.fromEntries(uri.searchParams),
+    );
+    const goalManager = await getGoalManager();
+    const activeGoal = goalManager.getActiveGoal();
+    const summaries = await goalManager.getGoalSummaries(query);
+    const archived =
+      includeArchived === "true" ? await goalManager.listArchivedGoals() : [];
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(
+            [
+              ...summaries.map((summary) => ({
+                ...summary,
+                active: summary.name === activeGoal,
+              })),
+              ...archived.map((summary) => ({ ...summary, active: false })),
+            ],
+            null,
+            2,
+          ),
+        },
+      ],
+    };
+  }
+
+  server.resource(
+    "goals",
+    "goals://list",
+    {
+      description: `Lists all goals in the active workspace, sorted by priority, due date and name.
+        Each entry includes the goal name, its summary, status, front matter and whether it is the active goal.
+        Query parameters filter and sort the list like the list-goals tool, e.g.
+        goals://list?tag=api&sort=due. Archived goals are included with archived=true.`,
+      mimeType: "application/json",
+    },
+    (uri) => readGoalList(uri),
+  );
+
+  // Registered before goals://{name}, which would otherwise match the query.
+  // A {?status,...} template would only match URIs giving every parameter in
+  // order, so the literal "?" keeps goals named list-* out of this one.
+  server.resource(
+    "goals-query",
+    new ResourceTemplate("goals://list?{+query}", { list: undefined }),
+    {
+      description:
+        "Lists goals in the active workspace filtered by query parameters: status, priority, tag, owner, due_before, overdue, sort and archived",
+      mimeType: "application/json",
+    },
+    (uri) => readGoalList(uri),
+  );
+
+  server.resource(
+    "workspace-learnings",
+    "goals://learnings",
+    {
+      description: "Lists workspace-level learnings in the active workspace.",
+      mimeType: "application/json",
+    },
+    async (uri) => {
+      const goalManager = await getGoalManager();
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(await goalManager.listLearnings(), null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "active-goal-briefing",
+    "goals://active/briefing",
+    {
+      description: `A briefing on the active goal: its status, current phase, last session
+        notes, open tasks, plan and recent learnings, truncated to ${DEFAULT_BRIEFING_CHARS} characters.
+        Use the get-briefing tool for a different budget.`,
+      mimeType: "text/markdown",
+    },
+    async (uri) => {
+      const goalManager = await getGoalManager();
+      const briefing = await goalManager.getBriefing(
+        getGoalOrActive(goalManager),
+      );
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: briefing.text,
+          },
+        ],
+      };
+    },
+  );
+
+  // Registered before goals://{name}, which would otherwise match search URIs
+  server.resource(
+    "search",
+    new ResourceTemplate("goals://search{?q}", { list: undefined }),
+    {
+      description:
+        "Searches plans and learnings in the active workspace, e.g. goals://search?q=locking",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const query = Array.isArray(variables.q) ? variables.q[0] : variables.q;
+      const goalManager = await getGoalManager();
+      const results = await goalManager.search(
+        decodeURIComponent(query.replace(/\+/g, " ")),
+      );
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(results, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // goals://search{?q} only matches with a non-empty q, so other search URIs
+  // get an explanation rather than being read as goal names
+  for (const [name, uriTemplate] of [
+    ["search-without-query", "goals://search"],
+    ["search-with-other-parameters", "goals://search?{+query}"],
+  ]) {
+    server.resource(
+      name,
+      new ResourceTemplate(uriTemplate, { list: undefined }),
+      {
+        description:
+          "Explains that searches need a query, e.g. goals://search?q=locking",
+      },
+      async () => {
+        throw new GoalsError(
+          "INVALID_ARGUMENTS",
+          "Add a query to search, e.g. goals://search?q=locking",
+        );
+      },
+    );
+  }
+
+  server.resource(
+    "goal",
+    new ResourceTemplate("goals://{name}", {
+      list: () => listGoalResources("", (goal) => `Details for goal "${goal}"`),
+    }),
+    {
+      description: goalResourceDescription("A goal's details and status", ""),
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const { goalManager, name } = await resolveGoal(
+        goalNameFromVariables(variables),
+      );
+      const metadata = await goalManager.getGoal(name);
+      if (!metadata) {
+        throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+      }
+
+      const goal = {
+        name,
+        title: metadata.title ?? null,
+        created_at: metadata.created_at,
+        last_updated: metadata.last_updated,
+        description: await goalManager.getGoalDescription(name),
+        active: goalManager.getActiveGoal() === name,
+        status: await goalManager.getGoalStatus(name),
+        learnings: (await goalManager.listLearnings(name)).length,
+      };
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(goal, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "goal-plan",
+    new ResourceTemplate("goals://{name}/plan", {
+      list: () =>
+        listGoalResources("/plan", (goal) => `Plan for goal "${goal}"`),
+    }),
+    {
+      description: goalResourceDescription("A goal's current plan", "/plan"),
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      const { goalManager, name } = await resolveGoal(
+        goalNameFromVariables(variables),
+      );
+      const plan = await goalManager.getPlan(name);
+      if (plan === null) {
+        throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: plan,
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "goal-plan-history",
+    new ResourceTemplate("goals://{name}/plan/history", {
+      list: () =>
+        listGoalResources(
+          "/plan/history",
+          (goal) => `Versions of the plan for goal "${goal}"`,
+        ),
+    }),
+    {
+      description: goalResourceDescription(
+        "Past versions of a goal's plan",
+        "/plan/history",
+      ),
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const { goalManager, name } = await resolveGoal(
+        goalNameFromVariables(variables),
+      );
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(
+              await goalManager.listPlanVersions(name),
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "goal-journal",
+    new ResourceTemplate("goals://{name}/journal", {
+      list: () =>
+        listGoalResources(
+          "/journal",
+          (goal) => `Work sessions recorded for goal "${goal}"`,
+        ),
+    }),
+    {
+      description: goalResourceDescription(
+        "A goal's session journal",
+        "/journal",
+      ),
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const { goalManager, name } = await resolveGoal(
+        goalNameFromVariables(variables),
+      );
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(await goalManager.listSessions(name), null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "goal-progress",
+    new ResourceTemplate("goals://{name}/progress", {
+      list: () =>
+        listGoalResources(
+          "/progress",
+          (goal) => `Phase and task progress for goal "${goal}"`,
+        ),
+    }),
+    {
+      description: goalResourceDescription(
+        "Progress on a goal's phases and tasks",
+        "/progress",
+      ),
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const { goalManager, name } = await resolveGoal(
+        goalNameFromVariables(variables),
+      );
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(
+              await goalManager.getGoalProgress(name),
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "goal-learnings",
+    new ResourceTemplate("goals://{name}/learnings", {
+      list: () =>
+        listGoalResources(
+          "/learnings",
+          (goal) => `Learnings recorded for goal "${goal}"`,
+        ),
+    }),
+    {
+      description: goalResourceDescription(
+        "Learnings recorded for a goal",
+        "/learnings",
+      ),
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const { goalManager, name } = await resolveGoal(
+        goalNameFromVariables(variables),
+      );
+      if (!(await goalManager.listGoals()).includes(name)) {
+        throw new GoalsError("GOAL_NOT_FOUND", `Goal "${name}" does not exist`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(
+              await goalManager.listLearnings(name),
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // Register prompts
+  function userPrompt(description: string, text: string) {
+    return {
+      description,
+      messages: [
+        {
+          role: "user" as const,
+          content: { type: "text" as const, text },
+        },
+      ],
+    };
+  }
+
+  server.prompt(
+    "plan-new-goal",
+    "Draft a phased plan for a new goal and create it",
+    {
+      objective: z.string(),
+      name: z.string().optional(),
+    },
+    async ({ objective, name }) => {
+      const workspace = await getWorkspace();
+      const goalManager = await openGoalManager(workspace);
+      const goals = await goalManager.getGoalSummaries();
+      const templates = await getTemplateManager(workspace).listTemplates();
+
+      let text = `Plan a new goal for this objective:\n\n${objective}\n\n`;
+      text += `Write the plan as markdown: a "# Title" heading, a one-paragraph summary, then phases as headings tagged with their status, e.g. "## [TODO] Phase 1: Design", each with "- [ ]" task checkboxes. Keep tasks small enough to check off in one sitting.\n\n`;
+      text += `Then call create-goal with ${name ? `the name "${name}"` : "a short kebab-case name"} and the plan. If the objective matches one of these templates, pass template and variables instead:\n`;
+      text += templates
+        .map((template) => `- ${template.name}: ${template.description}`)
+        .join("\n");
+      if (goals.length > 0) {
+        text += `\n\nExisting goals in this workspace, which the new goal may belong to (parent) or depend on (depends_on):\n`;
+        text += goals
+          .map(
+            (goal) =>
+              `- ${goal.name} [${goal.status}]: ${goal.description?.split("\n")[0] ?? "No description"}`,
+          )
+          .join("\n");
+      }
+      return userPrompt(`Plan a new goal: ${objective}`, text);
+    },
+  );
+
+  server.prompt(
+    "record-learning",
+    "Record a design decision, pitfall or discovery as a learning",
+    {
+      topic: z.string().optional(),
+      goal: z.string().optional(),
+    },
+    async ({ topic, goal }) => {
+      const goalManager = await getGoalManager();
+      const target = goal ?? goalManager.getActiveGoal();
+
+      let text = topic
+        ? `Record a learning about: ${topic}\n`
+        : "Record a learning about what was just discovered or decided.\n";
+      text += LEARNINGS_INSTRUCTIONS;
+      text += target
+        ? `\nCall create-learning with goal "${target}".`
+        : "\nCall create-learning without a goal to record it for the whole workspace.";
+      return userPrompt("Record a learning", text);
+    },
+  );
+
+  server.prompt(
+    "goal-retrospective",
+    "Review a goal's plan, sessions and learnings and write a retrospective",
+    {
+      goal: z.string().optional(),
+    },
+    async ({ goal }) => {
+      const goalManager = await getGoalManager();
+      const name = getGoalOrActive(goalManager, goal);
+      const plan = await goalManager.getPlan(name);
+      const progress = await goalManager.getGoalProgress(name);
+      const { status } = await goalManager.getGoalStatus(name);
+      const sessions = await goalManager.listSessions(name);
+      const learnings = await Promise.all(
+        (await goalManager.listLearnings(name)).map((learning) =>
+          goalManager.getLearning(learning.filename, name),
+        ),
+      );
+
+      let text = `Write a retrospective for goal "${name}" (status: ${status}, ${progress.percent_complete}% complete).\n\n`;
+      text += `<plan>\n${plan}\n</plan>\n\n`;
+      if (sessions.length > 0) {
+        text += `<sessions>\n${sessions
+          .filter((session) => session.summary)
+          .map((session) => `- ${session.ended_at}: ${session.summary}`)
+          .join("\n")}\n</sessions>\n\n`;
+      }
+      text += learnings.length
+        ? `<learnings>\n${learnings.join("\n")}\n</learnings>\n\n`
+        : "No learnings were recorded for this goal.\n\n";
+      text += `Cover what went well, what was harder than planned and why, and what to do differently next time. Record anything that should inform future goals with create-learning (without a goal, so it applies to the whole workspace). If the goal is finished, update its status with set-goal-status.`;
+      return userPrompt(`Retrospective for goal "${name}"`, text);
+    },
+  );
+
+  server.prompt(
+    "resume-goal",
+    "Pick up work on a goal where the last session left off",
+    {
+      goal: z.string().optional(),
+    },
+    async ({ goal }) => {
+      const goalManager = await getGoalManager();
+      const name = getGoalOrActive(goalManager, goal);
+      const briefing = await goalManager.getBriefing(name);
+
+      const text =
+        `Resume work on goal "${name}".\n\n${briefing.text}\n\n` +
+        `Call start-session before starting. Continue from the last session's next steps, or the first open task of the current phase. Check off tasks with complete-task as they are done, and call end-session with a summary and next steps before stopping.`;
+      return userPrompt(`Resume goal "${name}"`, text);
+    },
+  );
+
   return server;
 }
@@ -0,0 +1,160 @@
+import { join } from "path";
+import { mkdir, readFile, readdir, rm, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { homedir } from "os";
+import {
+  updateJsonFile,
+  withFileLock,
+  writeFileAtomic,
+  writeFileExclusive,
+} from "./storage";
+import { WorkspaceManager } from "./workspace";
+import { GoalManager } from "./goals";
+
+describe("storage", () => {
+  const TEST_DIR = join(homedir(), ".goals-test-storage");
+
+  beforeEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  it("should write files atomically without leaving temp files", async () => {
+    const path = join(TEST_DIR, "data.json");
+    await writeFileAtomic(path, "first");
+    await writeFileAtomic(path, "second");
+
+    expect(await readFile(path, "utf-8")).toBe("second");
+    expect(await readdir(TEST_DIR)).toEqual(["data.json"]);
+  });
+
+  it("should not replace existing files when writing exclusively", async () => {
+    const path = join(TEST_DIR, "learning.md");
+    await writeFileExclusive(path, "first");
+
+    await expect(writeFileExclusive(path, "second")).rejects.toMatchObject({
+      code: "EEXIST",
+    });
+    expect(await readFile(path, "utf-8")).toBe("first");
+    expect(await readdir(TEST_DIR)).toEqual(["learning.md"]);
+  });
+
+  it("should serialize concurrent read-modify-write updates", async () => {
+    const path = join(TEST_DIR, "counter.json");
+
+    await Promise.all(
+      Array.from({ length: 20 }, () =>
+        updateJsonFile(
+          path,
+          () => ({ count: 0 }),
+          async ({ count }) => {
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            return { count: count + 1 };
+          },
+        ),
+      ),
+    );
+
+    expect(JSON.parse(await readFile(path, "utf-8"))).toEqual({ count: 20 });
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  it("should release the lock when the update fails", async () => {
+    const path = join(TEST_DIR, "data.json");
+
+    await expect(
+      withFileLock(path, async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  it("should break locks left behind by dead processes", async () => {
+    const path = join(TEST_DIR, "data.json");
+    // PIDs are capped well below this value, so the holder cannot be running
+    await writeFile(
+      `${path}.lock`,
+      JSON.stringify({ pid: 2 ** 30, acquired_at: new Date().toISOString() }),
+    );
+
+    expect(await withFileLock(path, async () => "acquired")).toBe("acquired");
+  });
+
+  it("should time out waiting for a lock held by a live process", async () => {
+    const path = join(TEST_DIR, "data.json");
+    await writeFile(
+      `${path}.lock`,
+      JSON.stringify({
+        pid: process.pid,
+        acquired_at: new Date().toISOString(),
+      }),
+    );
+
+    await expect(
+      withFileLock(path, async () => "acquired", { timeoutMs: 50 }),
+    ).rejects.toThrow("Timed out waiting for lock");
+  });
+
+  it("should not lose workspaces registered by separate managers", async () => {
+    const first = new WorkspaceManager(TEST_DIR);
+    const second = new WorkspaceManager(TEST_DIR);
+    await Promise.all([first.init(), second.init()]);
+
+    await Promise.all([
+      first.createWorkspace("one", join(TEST_DIR, "one")),
+      second.createWorkspace("two", join(TEST_DIR, "two")),
+    ]);
+
+    const reloaded = new WorkspaceManager(TEST_DIR);
+    await reloaded.init();
+    expect((await reloaded.getAll()).map((w) => w.name).sort()).toEqual([
+      "one",
+      "two",
+    ]);
+  });
+
+  it("should apply concurrent plan edits from separate managers", async () => {
+    const workspacePath = join(TEST_DIR, "workspace");
+    const first = new GoalManager(workspacePath);
+    await first.init();
+    await first.createGoal(
+      "test-goal",
+      "# Test Goal\n\n- [ ] First task\n- [ ] Second task\n",
+    );
+
+    const second = new GoalManager(workspacePath);
+    await second.init();
+
+    await Promise.all([
+      first.completeTask("test-goal", "First task"),
+      second.completeTask("test-goal", "Second task"),
+    ]);
+
+    const progress = await first.getGoalProgress("test-goal");
+    expect(progress.completed_tasks).toBe(2);
+  });
+
+  it("should keep every learning written in parallel", async () => {
+    const manager = new GoalManager(join(TEST_DIR, "workspace"));
+    await manager.init();
+
+    const created = await Promise.all(
+      Array.from({ length: 5 }, (_, i) =>
+        manager.createLearning({
+          title: `Learning ${i}`,
+          context: "",
+          details: "",
+          rationale: "",
+          alternatives: "",
+          references: "",
+        }),
+      ),
+    );
+
+    expect(new Set(created.map((learning) => learning.filename)).size).toBe(5);
+    expect(
+      (await manager.listLearnings()).map((learning) => learning.title).sort(),
+    ).toEqual(created.map((learning) => learning.title).sort());
+  });
+});
@@ -0,0 +1,176 @@
+import { link, open, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import { dirname, basename, join } from "path";
+import { randomBytes } from "crypto";
+import { GoalsError } from "./errors.js";
+
+export interface LockOptions {
+  timeoutMs?: number; // how long to wait for the lock before giving up
+  staleMs?: number; // locks older than this are assumed abandoned
+  retryMs?: number; // delay between attempts to take the lock
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<LockOptions> = {
+  timeoutMs: 5000,
+  staleMs: 10000,
+  retryMs: 20,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function isStaleLock(
+  lockPath: string,
+  staleMs: number,
+): Promise<boolean> {
+  try {
+    const { mtimeMs } = await stat(lockPath);
+    if (Date.now() - mtimeMs > staleMs) return true;
+
+    const { pid } = JSON.parse(await readFile(lockPath, "utf-8"));
+    return typeof pid === "number" && !isProcessAlive(pid);
+  } catch (error) {
+    // The lock vanished or is still being written; try again
+    return false;
+  }
+}
+
+async function acquireLock(
+  lockPath: string,
+  options: Required<LockOptions>,
+): Promise<void> {
+  const deadline = Date.now() + options.timeoutMs;
+
+  while (true) {
+    try {
+      const handle = await open(lockPath, "wx");
+      try {
+        await handle.writeFile(
+          JSON.stringify({
+            pid: process.pid,
+            acquired_at: new Date().toISOString(),
+          }),
+        );
+      } finally {
+        await handle.close();
+      }
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    if (await isStaleLock(lockPath, options.staleMs)) {
+      await rm(lockPath, { force: true });
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new GoalsError(
+        "LOCK_TIMEOUT",
+        `Timed out waiting for lock ${lockPath}`,
+      );
+    }
+    await sleep(options.retryMs);
+  }
+}
+
+// Runs fn while holding an advisory lock on path. The lock is a sibling
+// "<path>.lock" file, so it works across processes sharing a directory.
+// Locks are not reentrant: do not take the same lock again inside fn.
+export async function withFileLock<T>(
+  path: string,
+  fn: () => Promise<T>,
+  options: LockOptions = {},
+): Promise<T> {
+  const lockPath = `${path}.lock`;
+  await acquireLock(lockPath, { ...DEFAULT_LOCK_OPTIONS, ...options });
+  try {
+    return await fn();
+  } finally {
+    await rm(lockPath, { force: true });
+  }
+}
+
+function getTempPath(path: string): string {
+  return join(
+    dirname(path),
+    `.${basename(path)}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`,
+  );
+}
+
+// Writes data to a temporary file next to path and renames it into place,
+// so readers never observe a partially written file.
+export async function writeFileAtomic(
+  path: string,
+  data: string,
+): Promise<void> {
+  const tempPath = getTempPath(path);
+
+  try {
+    await writeFile(tempPath, data);
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Like writeFileAtomic, but fails with EEXIST rather than replacing a file
+// that is already at path. Unlike a rename, linking never overwrites.
+export async function writeFileExclusive(
+  path: string,
+  data: string,
+): Promise<void> {
+  const tempPath = getTempPath(path);
+
+  try {
+    await writeFile(tempPath, data);
+    await link(tempPath, path);
+  } finally {
+    await rm(tempPath, { force: true });
+  }
+}
+
+export async function readJsonFile<T>(
+  path: string,
+  fallback: () => T,
+): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback();
+    }
+    throw error;
+  }
+}
+
+// Re-reads a JSON file under its lock, applies update to the latest
+// contents and writes the result back atomically.
+export async function updateJsonFile<T>(
+  path: string,
+  fallback: () => T,
+  update: (current: T) => T | Promise<T>,
+  options: LockOptions = {},
+): Promise<T> {
+  return withFileLock(
+    path,
+    async () => {
+      const next = await update(await readJsonFile(path, fallback));
+      await writeFileAtomic(path, JSON.stringify(next, null, 2));
+      return next;
+    },
+    options,
+  );
+}
@@ -0,0 +1,234 @@
+import { join } from "path";
+import { readFile, readdir } from "fs/promises";
+import { existsSync } from "fs";
+import { parsePlan } from "./markdown.js";
+import { GoalsError } from "./errors.js";
+
+export type TemplateSource = "builtin" | "global" | "workspace";
+
+export interface GoalTemplate {
+  name: string;
+  description: string;
+  source: TemplateSource;
+  content: string;
+  variables: string[]; // placeholders the caller must provide
+}
+
+// Placeholders look like {{variable}}. These are filled in automatically.
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_-]+)\s*\}\}/g;
+const AUTOMATIC_VARIABLES = ["goal", "date"];
+
+const BUILTIN_TEMPLATES: Record<string, string> = {
+  bugfix: `# Fix: {{title}}
+
+{{summary}}
+
+## Background
+
+- Reported behavior: {{symptom}}
+- Expected behavior: {{expected}}
+
+## [TODO] Phase 1: Reproduce
+
+- [ ] Write a failing test that reproduces the bug
+- [ ] Identify the root cause
+
+## [TODO] Phase 2: Fix
+
+- [ ] Implement the fix
+- [ ] Confirm the failing test now passes
+- [ ] Check for the same bug elsewhere
+
+## [TODO] Phase 3: Verify
+
+- [ ] Run the full test suite
+- [ ] Record what caused the bug as a learning
+`,
+  feature: `# {{title}}
+
+{{summary}}
+
+## Background
+
+{{background}}
+
+## [TODO] Phase 1: Design
+
+- [ ] Agree on the user-facing behavior
+- [ ] Sketch the implementation approach
+
+## [TODO] Phase 2: Implementation
+
+- [ ] Implement the feature
+- [ ] Add tests
+
+## [TODO] Phase 3: Release
+
+- [ ] Update documentation
+- [ ] Ship and announce the feature
+
+## Success Criteria
+
+{{success_criteria}}
+`,
+  migration: `# Migrate {{from}} to {{to}}
+
+{{summary}}
+
+## Background
+
+Started on {{date}}.
+
+## [TODO] Phase 1: Inventory
+
+- [ ] List every usage of {{from}}
+- [ ] Identify blockers and risky areas
+
+## [TODO] Phase 2: Migrate
+
+- [ ] Introduce {{to}} alongside {{from}}
+- [ ] Move usages over incrementally
+
+## [TODO] Phase 3: Clean up
+
+- [ ] Remove {{from}}
+- [ ] Record pitfalls as learnings
+
+## Rollback Plan
+
+{{rollback}}
+`,
+  spike: `# Spike: {{question}}
+
+Time-boxed investigation to answer: {{question}}
+
+## Time Box
+
+{{timebox}}
+
+## [TODO] Phase 1: Investigate
+
+- [ ] Collect candidate approaches
+- [ ] Prototype the most promising approach
+
+## [TODO] Phase 2: Conclude
+
+- [ ] Write up findings as learnings
+- [ ] Recommend next steps
+`,
+};
+
+function describeTemplate(content: string): string {
+  return parsePlan(content).title ?? "";
+}
+
+function findVariables(content: string): string[] {
+  const variables = new Set<string>();
+  for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!AUTOMATIC_VARIABLES.includes(match[1])) {
+      variables.add(match[1]);
+    }
+  }
+  return [...variables];
+}
+
+function makeTemplate(
+  name: string,
+  source: TemplateSource,
+  content: string,
+): GoalTemplate {
+  return {
+    name,
+    description: describeTemplate(content),
+    source,
+    content,
+    variables: findVariables(content),
+  };
+}
+
+export class TemplateManager {
+  private readonly globalDir: string;
+  private readonly workspaceDir: string | null;
+
+  // Workspace templates override global templates, which override built-ins.
+  constructor(globalDir: string, workspacePath?: string) {
+    this.globalDir = globalDir;
+    this.workspaceDir = workspacePath
+      ? join(workspacePath, ".goals", "templates")
+      : null;
+  }
+
+  private async loadDirectory(
+    dir: string | null,
+    source: TemplateSource,
+  ): Promise<GoalTemplate[]> {
+    if (!dir || !existsSync(dir)) {
+      return [];
+    }
+
+    const entries = (await readdir(dir)).filter((entry) =>
+      entry.endsWith(".md"),
+    );
+    return Promise.all(
+      entries.map(async (entry) =>
+        makeTemplate(
+          entry.replace(/\.md$/, ""),
+          source,
+          await readFile(join(dir, entry), "utf-8"),
+        ),
+      ),
+    );
+  }
+
+  async listTemplates(): Promise<GoalTemplate[]> {
+    const templates = new Map<string, GoalTemplate>();
+    for (const [name, content] of Object.entries(BUILTIN_TEMPLATES)) {
+      templates.set(name, makeTemplate(name, "builtin", content));
+    }
+    for (const template of [
+      ...(await this.loadDirectory(this.globalDir, "global")),
+      ...(await this.loadDirectory(this.workspaceDir, "workspace")),
+    ]) {
+      templates.set(template.name, template);
+    }
+
+    return [...templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTemplate(name: string): Promise<GoalTemplate | null> {
+    const templates = await this.listTemplates();
+    return templates.find((template) => template.name === name) ?? null;
+  }
+
+  async render(
+    name: string,
+    variables: Record<string, string>,
+    goalName: string,
+  ): Promise<string> {
+    const template = await this.getTemplate(name);
+    if (!template) {
+      throw new GoalsError(
+        "TEMPLATE_NOT_FOUND",
+        `Template "${name}" does not exist`,
+      );
+    }
+
+    const missing = template.variables.filter((v) => !(v in variables));
+    if (missing.length > 0) {
+      throw new GoalsError(
+        "MISSING_TEMPLATE_VARIABLES",
+        `Template "${name}" is missing variables: ${missing.join(", ")}`,
+      );
+    }
+
+    const values: Record<string, string> = {
+      goal: goalName,
+      date: new Date().toISOString().slice(0, 10),
+      ...variables,
+    };
+    return template.content.replace(
+      PLACEHOLDER_PATTERN,
+      (_, variable: string) => values[variable],
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { join } from "path";
+import { mkdir, rm } from "fs/promises";
+import { homedir } from "os";
+import { WorkspaceManager } from "./workspace";
+
+describe("WorkspaceManager", () => {
+  const TEST_DIR = join(homedir(), ".goals-test-workspace");
+  const STORE_DIR = join(TEST_DIR, "store");
+
+  beforeEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+    await mkdir(STORE_DIR, { recursive: true });
+  });
+
+  it("should find the nearest git root or .goals directory", async () => {
+    const repo = join(TEST_DIR, "repo");
+    const nested = join(repo, "packages", "app");
+    await mkdir(join(repo, ".git"), { recursive: true });
+    await mkdir(join(nested, ".goals", "goals"), { recursive: true });
+    await mkdir(join(nested, "src"), { recursive: true });
+
+    const manager = new WorkspaceManager(STORE_DIR);
+    await manager.init();
+
+    expect(manager.findWorkspaceRoot(join(repo, "packages"))).toBe(repo);
+    expect(manager.findWorkspaceRoot(join(nested, "src"))).toBe(nested);
+  });
+
+  it("should not mistake a workspace store for a workspace", async () => {
+    const project = join(TEST_DIR, "project");
+    await mkdir(join(project, "src"), { recursive: true });
+
+    const manager = new WorkspaceManager(join(project, ".goals"));
+    await manager.init();
+
+    expect(manager.findWorkspaceRoot(join(project, "src"))).not.toBe(project);
+  });
+
+  it("should register discovered workspaces once", async () => {
+    const repo = join(TEST_DIR, "repo");
+    await mkdir(join(repo, ".git"), { recursive: true });
+    await mkdir(join(repo, "src"), { recursive: true });
+
+    const manager = new WorkspaceManager(STORE_DIR);
+    await manager.init();
+    await manager.createWorkspace("repo", join(TEST_DIR, "other"));
+
+    const first = await manager.discoverWorkspace([join(repo, "src")]);
+    expect(first).toEqual({
+      workspace: expect.objectContaining({ name: "repo-2", path: repo }),
+      created: true,
+    });
+
+    const second = await manager.discoverWorkspace([repo]);
+    expect(second?.created).toBe(false);
+    expect(second?.workspace.name).toBe("repo-2");
+  });
+
+  it("should reject workspace names containing a colon", async () => {
+    const repo = join(TEST_DIR, "a:b");
+    await mkdir(join(repo, ".git"), { recursive: true });
+
+    const manager = new WorkspaceManager(STORE_DIR);
+    await manager.init();
+    await expect(
+      manager.createWorkspace("a:b", join(TEST_DIR, "other")),
+    ).rejects.toThrow('Invalid workspace name "a:b": it must not contain ":"');
+
+    const discovered = await manager.discoverWorkspace([repo]);
+    expect(discovered?.workspace.name).toBe("a-b");
+    await expect(manager.renameWorkspace("a-b", "x:y")).rejects.toThrow(
+      'Invalid workspace name "x:y"',
+    );
+  });
+
+  it("should see workspaces registered by other processes", async () => {
+    const manager = new WorkspaceManager(STORE_DIR);
+    await manager.init();
+    const other = new WorkspaceManager(STORE_DIR);
+    await other.init();
+
+    await other.createWorkspace("shared", join(TEST_DIR, "shared"));
+    await other.updateLastActive("shared");
+
+    expect((await manager.findWorkspace("shared")).path).toBe(
+      join(TEST_DIR, "shared"),
+    );
+    expect((await manager.getAll()).map((w) => w.name)).toEqual(["shared"]);
+    expect((await manager.getActiveWorkspace())?.name).toBe("shared");
+  });
+});
@@ -1,7 +1,10 @@
 import { homedir } from "os";
-import { join } from "path";
-import { mkdir, readFile, writeFile } from "fs/promises";
-import { existsSync } from "fs";
+import { basename, dirname, isAbsolute, join, resolve } from "path";
+import { access, mkdir, stat } from "fs/promises";
+import { constants, existsSync } from "fs";
+import { readJsonFile, updateJsonFile } from "./storage.js";
+import { GoalsError } from "./errors.js";
+import { validateWorkspaceName } from "./names.js";
 
 export interface Workspace {
   name: string;
@@ -9,6 +12,15 @@ export interface Workspace {
   last_active: string;
 }
 
+export interface WorkspaceHealth extends Workspace {
+  exists: boolean; // false if the workspace directory has been moved or deleted
+}
+
+export interface DiscoveredWorkspace {
+  workspace: Workspace;
+  created: boolean; // true if the workspace was registered by discovery
+}
+
 export interface WorkspaceStore {
   workspaces: Workspace[];
   active_workspace: string | null;
@@ -28,6 +40,11 @@ export class WorkspaceManager {
     return join(this.storeDir, "workspaces.json");
   }
 
+  // Goal templates shared by every workspace
+  get templatesDir(): string {
+    return join(this.storeDir, "templates");
+  }
+
   async init(): Promise<void> {
     await this.ensureDirectoryExists();
     await this.loadWorkspaces();
@@ -39,67 +56,314 @@ export class WorkspaceManager {
     }
   }
 
+  private static emptyStore(): WorkspaceStore {
+    return { workspaces: [], active_workspace: null };
+  }
+
   private async loadWorkspaces(): Promise<void> {
-    try {
-      const data = await readFile(this.workspacesFile, "utf-8");
-      const store: WorkspaceStore = JSON.parse(data);
-      this.workspaces = store.workspaces;
-      this.activeWorkspace = store.active_workspace;
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-        this.workspaces = [];
-        this.activeWorkspace = null;
-        await this.saveWorkspaces();
-      } else {
-        throw error;
-      }
-    }
+    const store = existsSync(this.workspacesFile)
+      ? await readJsonFile(this.workspacesFile, WorkspaceManager.emptyStore)
+      : await this.updateStore((store) => store);
+    this.workspaces = store.workspaces;
+    this.activeWorkspace = store.active_workspace;
   }
 
-  private async saveWorkspaces(): Promise<void> {
-    const store: WorkspaceStore = {
-      workspaces: this.workspaces,
-      active_workspace: this.activeWorkspace,
-    };
-    await writeFile(this.workspacesFile, JSON.stringify(store, null, 2));
+  // Re-reads the store before lookups, so workspaces registered or activated
+  // by other processes sharing the store directory, such as the CLI, are seen.
+  private async refresh(): Promise<void> {
+    const store = await readJsonFile(
+      this.workspacesFile,
+      WorkspaceManager.emptyStore,
+    );
+    this.workspaces = store.workspaces;
+    this.activeWorkspace = store.active_workspace;
+  }
+
+  // Applies update to the latest store on disk, so workspaces registered by
+  // other server processes sharing the store directory are not lost.
+  private async updateStore(
+    update: (store: WorkspaceStore) => WorkspaceStore,
+  ): Promise<WorkspaceStore> {
+    const store = await updateJsonFile(
+      this.workspacesFile,
+      WorkspaceManager.emptyStore,
+      update,
+    );
+    this.workspaces = store.workspaces;
+    return store;
   }
 
-  getAll(): Workspace[] {
+  async getAll(): Promise<Workspace[]> {
+    await this.refresh();
     return [...this.workspaces].sort(
       (a, b) =>
         new Date(b.last_active).getTime() - new Date(a.last_active).getTime(),
     );
   }
 
-  async createWorkspace(name: string, path: string): Promise<Workspace> {
-    if (this.workspaces.some((w) => w.name === name)) {
-      throw new Error(`Workspace "${name}" already exists`);
+  // A workspace path must be absolute and either be an existing directory or
+  // somewhere a directory could be created.
+  private async validatePath(path: string): Promise<string> {
+    if (!isAbsolute(path)) {
+      throw new GoalsError(
+        "INVALID_WORKSPACE_PATH",
+        `Workspace path "${path}" must be absolute`,
+      );
+    }
+
+    const resolved = resolve(path);
+    if (existsSync(resolved)) {
+      if (!(await stat(resolved)).isDirectory()) {
+        throw new GoalsError(
+          "INVALID_WORKSPACE_PATH",
+          `Workspace path "${path}" is not a directory`,
+        );
+      }
+      return resolved;
+    }
+
+    let ancestor = dirname(resolved);
+    while (!existsSync(ancestor)) {
+      ancestor = dirname(ancestor);
+    }
+    try {
+      if (!(await stat(ancestor)).isDirectory()) throw new Error();
+      await access(ancestor, constants.W_OK);
+    } catch (error) {
+      throw new GoalsError(
+        "INVALID_WORKSPACE_PATH",
+        `Workspace path "${path}" does not exist and cannot be created`,
+      );
+    }
+    return resolved;
+  }
+
+  private static assertPathAvailable(
+    store: WorkspaceStore,
+    name: string,
+    path: string,
+  ): void {
+    const existing = store.workspaces.find(
+      (w) => w.name !== name && resolve(w.path) === path,
+    );
+    if (existing) {
+      throw new GoalsError(
+        "INVALID_WORKSPACE_PATH",
+        `Path "${path}" is already registered as workspace "${existing.name}"`,
+      );
     }
+  }
 
+  async createWorkspace(name: string, path: string): Promise<Workspace> {
+    validateWorkspaceName(name);
     const workspace: Workspace = {
       name,
-      path,
+      path: await this.validatePath(path),
       last_active: new Date().toISOString(),
     };
 
-    this.workspaces.push(workspace);
-    await this.saveWorkspaces();
+    await this.updateStore((store) => {
+      if (store.workspaces.some((w) => w.name === name)) {
+        throw new GoalsError(
+          "WORKSPACE_EXISTS",
+          `Workspace "${name}" already exists`,
+        );
+      }
+      WorkspaceManager.assertPathAvailable(store, name, workspace.path);
+      return { ...store, workspaces: [...store.workspaces, workspace] };
+    });
     return workspace;
   }
 
-  async updateLastActive(name: string): Promise<Workspace> {
+  // Removes the workspace from the registry. Its files are left untouched.
+  async deleteWorkspace(name: string): Promise<Workspace> {
+    let workspace: Workspace | undefined;
+
+    await this.updateStore((store) => {
+      workspace = store.workspaces.find((w) => w.name === name);
+      if (!workspace) {
+        throw new GoalsError(
+          "WORKSPACE_NOT_FOUND",
+          `Workspace "${name}" not found`,
+        );
+      }
+      return {
+        workspaces: store.workspaces.filter((w) => w.name !== name),
+        active_workspace:
+          store.active_workspace === name ? null : store.active_workspace,
+      };
+    });
+
+    if (this.activeWorkspace === name) {
+      this.activeWorkspace = null;
+    }
+    return workspace!;
+  }
+
+  async renameWorkspace(name: string, newName: string): Promise<Workspace> {
+    if (name === newName) {
+      return this.findWorkspace(name);
+    }
+    validateWorkspaceName(newName);
+
+    const store = await this.updateStore((store) => {
+      if (!store.workspaces.some((w) => w.name === name)) {
+        throw new GoalsError(
+          "WORKSPACE_NOT_FOUND",
+          `Workspace "${name}" not found`,
+        );
+      }
+      if (store.workspaces.some((w) => w.name === newName)) {
+        throw new GoalsError(
+          "WORKSPACE_EXISTS",
+          `Workspace "${newName}" already exists`,
+        );
+      }
+      return {
+        workspaces: store.workspaces.map((w) =>
+          w.name === name ? { ...w, name: newName } : w,
+        ),
+        active_workspace:
+          store.active_workspace === name ? newName : store.active_workspace,
+      };
+    });
+
+    if (this.activeWorkspace === name) {
+      this.activeWorkspace = newName;
+    }
+    return store.workspaces.find((w) => w.name === newName)!;
+  }
+
+  // Points an existing workspace at a new directory, e.g. after moving a repo.
+  // Goal data is not copied; it is expected to have moved with the directory.
+  async moveWorkspace(name: string, path: string): Promise<Workspace> {
+    const resolved = await this.validatePath(path);
+
+    const store = await this.updateStore((store) => {
+      if (!store.workspaces.some((w) => w.name === name)) {
+        throw new GoalsError(
+          "WORKSPACE_NOT_FOUND",
+          `Workspace "${name}" not found`,
+        );
+      }
+      WorkspaceManager.assertPathAvailable(store, name, resolved);
+      return {
+        ...store,
+        workspaces: store.workspaces.map((w) =>
+          w.name === name ? { ...w, path: resolved } : w,
+        ),
+      };
+    });
+    return store.workspaces.find((w) => w.name === name)!;
+  }
+
+  async findWorkspace(name: string): Promise<Workspace> {
+    await this.refresh();
     const workspace = this.workspaces.find((w) => w.name === name);
     if (!workspace) {
-      throw new Error(`Workspace "${name}" not found`);
+      throw new GoalsError(
+        "WORKSPACE_NOT_FOUND",
+        `Workspace "${name}" not found`,
+      );
+    }
+    return workspace;
+  }
+
+  async findWorkspaceByPath(path: string): Promise<Workspace | null> {
+    await this.refresh();
+    const resolved = resolve(path);
+    return this.workspaces.find((w) => resolve(w.path) === resolved) ?? null;
+  }
+
+  // A .goals directory marks a workspace unless it is a workspace store, such
+  // as the default ~/.goals, which holds workspaces.json rather than goals.
+  private isWorkspaceGoalsDir(goalsDir: string): boolean {
+    if (!existsSync(goalsDir) || resolve(goalsDir) === resolve(this.storeDir)) {
+      return false;
     }
+    return (
+      existsSync(join(goalsDir, "state.json")) ||
+      existsSync(join(goalsDir, "goals")) ||
+      !existsSync(join(goalsDir, "workspaces.json"))
+    );
+  }
+
+  // Walks up from startDir to the nearest directory that either has a .goals
+  // directory or is the root of a git repository.
+  findWorkspaceRoot(startDir: string): string | null {
+    let dir = resolve(startDir);
+    while (true) {
+      if (
+        this.isWorkspaceGoalsDir(join(dir, ".goals")) ||
+        existsSync(join(dir, ".git"))
+      ) {
+        return dir;
+      }
+
+      const parent = dirname(dir);
+      if (parent === dir) return null;
+      dir = parent;
+    }
+  }
+
+  // Finds the workspace containing the first of startDirs that belongs to
+  // one, registering it under its directory name if it is not known yet.
+  async discoverWorkspace(
+    startDirs: string[] = [process.cwd()],
+  ): Promise<DiscoveredWorkspace | null> {
+    for (const startDir of startDirs) {
+      const root = this.findWorkspaceRoot(startDir);
+      if (!root) continue;
+
+      const existing = await this.findWorkspaceByPath(root);
+      if (existing) {
+        return { workspace: existing, created: false };
+      }
+
+      const base = basename(root).replace(/:/g, "-") || "workspace";
+      let name = base;
+      for (let i = 2; this.workspaces.some((w) => w.name === name); i++) {
+        name = `${base}-${i}`;
+      }
+      return {
+        workspace: await this.createWorkspace(name, root),
+        created: true,
+      };
+    }
+
+    return null;
+  }
+
+  async checkHealth(): Promise<WorkspaceHealth[]> {
+    return (await this.getAll()).map((workspace) => ({
+      ...workspace,
+      exists: existsSync(workspace.path),
+    }));
+  }
+
+  async updateLastActive(name: string): Promise<Workspace> {
+    const lastActive = new Date().toISOString();
+    const store = await this.updateStore((store) => {
+      if (!store.workspaces.some((w) => w.name === name)) {
+        throw new GoalsError(
+          "WORKSPACE_NOT_FOUND",
+          `Workspace "${name}" not found`,
+        );
+      }
+      return {
+        workspaces: store.workspaces.map((w) =>
+          w.name === name ? { ...w, last_active: lastActive } : w,
+        ),
+        active_workspace: name,
+      };
+    });
 
-    workspace.last_active = new Date().toISOString();
     this.activeWorkspace = name;
-    await this.saveWorkspaces();
-    return workspace;
+    return store.workspaces.find((w) => w.name === name)!;
   }
 
-  getActiveWorkspace(): Workspace | null {
+  async getActiveWorkspace(): Promise<Workspace | null> {
+    await this.refresh();
     if (!this.activeWorkspace) return null;
     return this.workspaces.find((w) => w.name === this.activeWorkspace) ?? null;
   }